@@ -1,483 +1,496 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { 
-  Player, Card, GamePhase, RoundRequirement, RequirementType, PlayedSet, LogEntry, ResourceType 
-} from './types';
-import { 
-  createPlayers, calculateHandValue, validateMove, getAIMove, 
-  getAIDealerRequirement, generateId, mashCard 
-} from './services/gameLogic';
-import { PLAYERS_COUNT, AI_DELAY_MS, RESOURCE_CONFIG, MASH_COOLDOWN_MS } from './constants';
+import React, { useState, useEffect, useMemo, useReducer, useRef, useSyncExternalStore } from 'react';
+import { Card, GameAction, GamePhase, GameState, KeyAction, MashMinigame, Match, MessageKey, RequirementType, ResourceType, RoundRequirement } from './types';
+import { createInitialState, getLastPlayed, getRematchOptions, isTurnPhase, playOutBots } from './services/engine';
+import { formatBotProfile, resolveBotBehavior } from './services/botProfiles';
+import { clearSave, loadGame, saveGame } from './services/persistence';
+import { MatchRecording, createRecording, downloadRecording } from './services/recording';
+import { CLOCK_TICK_MS, COUNTDOWN_ANNOUNCEMENTS, MASH_MINIGAME_CONFIG, MAX_BOT_GAME_ACTIONS, DEFAULT_RULES } from './constants';
 import { PlayerHand } from './components/PlayerHand';
 import { CardItem } from './components/CardItem';
 import { GameLog } from './components/GameLog';
+import { SetupScreen } from './components/SetupScreen';
+import { ReplayViewer } from './components/ReplayViewer';
+import { OnlineLobby } from './components/OnlineLobby';
+import { MashPanel } from './components/MashPanel';
+import { MatchStandings } from './components/MatchStandings';
+import { GameStatsDashboard } from './components/GameStatsDashboard';
+import { Leaderboard } from './components/Leaderboard';
+import { DealerModal } from './components/DealerModal';
+import { KeyCheatSheet } from './components/KeyCheatSheet';
+import { LanguageSwitch, useLocale } from './components/LanguageSwitch';
+import { ContrastSwitch } from './components/ContrastSwitch';
+import { createEntrants, createMatch, createMatchGame, describeMatchFormat, isMatchOver, recordMatchGame } from './services/match';
+import { recordRatedGame } from './services/ratings';
+import { RemoteGame, loadOnlineSession } from './services/netClient';
+import { PlayerIntent } from './services/protocol';
+import { describeRules } from './services/rules';
+import { getMashesLeft } from './services/mash';
+import { TurnClock, createClock, getBankMs, getRemainingMs, getTurnKey, isOutOfTime, setClockPaused, syncClock, tickClock, toSeconds } from './services/clock';
+import { applyWithUndo, canUndo, createUndoHistory } from './services/undo';
+import { findKeyAction, formatKey, isTextEntry, keyBindingsPreference, moveHandFocus, normalizeKey } from './services/keyboard';
+import { checkSelection, getHintPlays, getPlayableCardIds, hintsPreference } from './services/hints';
+import { randomSeed } from './services/rng';
+import { describeRequirement } from './services/gameLogic';
+import { t } from './services/i18n';
+
+interface Session {
+  game: GameState;
+  clock?: TurnClock; // A resumed game's clock; new games start a fresh one
+}
 
 export default function App() {
-  // --- State ---
-  const [players, setPlayers] = useState<Player[]>([]);
-  const [phase, setPhase] = useState<GamePhase>(GamePhase.INIT);
-  const [activePlayerIndex, setActivePlayerIndex] = useState<number>(0);
-  const [dealerIndex, setDealerIndex] = useState<number>(0);
-  const [roundRequirement, setRoundRequirement] = useState<RoundRequirement | null>(null);
-  const [tableStack, setTableStack] = useState<PlayedSet[]>([]);
-  const [selectedCardIds, setSelectedCardIds] = useState<string[]>([]);
-  const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [roundNumber, setRoundNumber] = useState(1);
-  const [winner, setWinner] = useState<Player | null>(null);
-
-  // Timer State
-  const [timeLeft, setTimeLeft] = useState(15);
-
-  // Mash Mechanics State
-  const [mashCooldown, setMashCooldown] = useState(false);
-  const [mashProgress, setMashProgress] = useState(0);
-  const [lastMashKey, setLastMashKey] = useState<string | null>(null);
-
-  const addLog = (text: string, type: LogEntry['type'] = 'info') => {
-    setLogs(prev => [...prev, { id: generateId(), text, type }]);
+  // Every screen below renders through t(), so a language change re-renders from the top
+  useLocale();
+  const [session, setSession] = useState<Session | null>(null);
+  const [savedGame, setSavedGame] = useState(loadGame);
+  const [replay, setReplay] = useState<MatchRecording | null>(null);
+  const [match, setMatch] = useState<Match | null>(null);
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+  // An online seat from before a refresh goes straight back to the server
+  const [online, setOnline] = useState(() => !!loadOnlineSession());
+
+  // A round-robin duel between two bots, played out one turn per tick so the page stays responsive
+  const [botDuel, setBotDuel] = useState<{ game: GameState; actions: number } | null>(null);
+
+  // Deals the next game of a match; duels between two bots are handed to the loop below
+  const startNextMatchGame = (current: Match) => {
+    const game = createMatchGame(current);
+    const isBotDuel = !!game && current.format.kind === 'ROUND_ROBIN' && game.players.every(p => !p.isHuman);
+    setMatch(current);
+    setBotDuel(game && isBotDuel ? { game, actions: 0 } : null);
+    setSession(game && !isBotDuel ? { game } : null);
   };
 
-  // --- Initialization ---
   useEffect(() => {
-    if (phase === GamePhase.INIT) {
-      const newPlayers = createPlayers();
-      setPlayers(newPlayers);
-      
-      // Determine Initial Dealer (Highest total points)
-      let maxPoints = -1;
-      let startIdx = 0;
-      newPlayers.forEach((p, idx) => {
-        const val = calculateHandValue(p.hand);
-        if (val > maxPoints) {
-          maxPoints = val;
-          startIdx = idx;
-        }
-      });
-
-      setDealerIndex(startIdx);
-      setActivePlayerIndex(startIdx);
-      addLog("游戏初始化完成，已发牌。", 'info');
-      addLog(`${newPlayers[startIdx].name} 资源最多，成为首轮领出者。`, 'action');
-      setPhase(GamePhase.DEALER_SELECTION);
-    }
-  }, [phase]);
+    if (!botDuel || !match) return;
+    const timer = setTimeout(() => {
+      const { game, actions } = botDuel;
+      const next = isTurnPhase(game.phase) && actions < MAX_BOT_GAME_ACTIONS ? playOutBots(game, 1) : game;
+      // A turn that changes nothing would repeat forever, so the duel stops there as well
+      if (next !== game) return setBotDuel({ game: next, actions: actions + 1 });
+      recordRatedGame(game);
+      startNextMatchGame(recordMatchGame(match, game));
+    });
+    return () => clearTimeout(timer);
+  }, [botDuel]);
 
-  // --- Timer Logic ---
-  useEffect(() => {
-    if ((phase !== GamePhase.PLAYING && phase !== GamePhase.DEALER_SELECTION) || players.length === 0) return;
-    
-    // Reset time when active player changes
-    setTimeLeft(15);
-    
-    const timer = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev <= 1) {
-          clearInterval(timer);
-          // Trigger timeout action
-          handleTurnTimeout();
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-
-    return () => clearInterval(timer);
-  }, [activePlayerIndex, phase, roundNumber]); // Depend on turn change indicators
-
-  const handleTurnTimeout = () => {
-    const player = players[activePlayerIndex];
-    if (!player) return;
-
-    // Only handle for Human here (Bots have their own delay loop, but this acts as safety fallback or UI sync)
-    if (player.isHuman) {
-       addLog("⏰ 操作超时！自动托管中...", 'alert');
-       
-       if (phase === GamePhase.DEALER_SELECTION) {
-           // Auto-play the smallest single card to start
-           const sortedHand = [...player.hand].sort((a, b) => a.level - b.level);
-           const smallestCard = sortedHand[0];
-           
-           if (smallestCard) {
-               const autoReq = {
-                   type: RequirementType.SINGLE_FIXED,
-                   resourceType: smallestCard.type,
-                   count: 1,
-                   description: `超时自动: 1 张 ${RESOURCE_CONFIG[smallestCard.type].label}`
-               };
-               setRoundRequirement(autoReq);
-               setPhase(GamePhase.PLAYING);
-               setTableStack([]);
-               setPlayers(prev => prev.map(p => ({ ...p, passedThisRound: false })));
-               // Use current 'players' state as it is human turn and no race with bot logic
-               executePlay(player.id, [smallestCard], players); 
-           }
-       } else {
-           // Auto Play Best Move or Pass
-           if (roundRequirement) {
-                const lastMove = tableStack.length > 0 ? tableStack[tableStack.length - 1] : null;
-                const bestMove = getAIMove(player, lastMove, roundRequirement);
-
-                if (bestMove) {
-                    executePlay(player.id, bestMove, players);
-                } else {
-                    executePass(player.id, players);
-                }
-           } else {
-                executePass(player.id, players);
-           }
-       }
-    }
+  const handleGameEnd = (game: GameState) => {
+    recordRatedGame(game);
+    if (match) setMatch(recordMatchGame(match, game));
   };
 
-  // --- Keyboard Listener for Human Mashing ---
-  useEffect(() => {
-    // Allow mashing if it's human turn (Play or Dealer)
-    const isHumanTurn = activePlayerIndex === 0 && (phase === GamePhase.PLAYING || phase === GamePhase.DEALER_SELECTION);
-    
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Logic: Must be human turn, 1 card selected, not on cooldown
-      if (!isHumanTurn || selectedCardIds.length !== 1 || mashCooldown) return;
-
-      const key = e.key.toLowerCase();
-      if (key === 'a' || key === 'd') {
-        // Must alternate keys
-        if (key !== lastMashKey) {
-          setLastMashKey(key);
-          setMashProgress(prev => {
-             const next = prev + 15; // ~7 presses to complete
-             if (next >= 100) {
-               // Trigger Mash
-               const card = players[0].hand.find(c => c.id === selectedCardIds[0]);
-               if (card) handleHumanMash(card);
-               return 0;
-             }
-             return next;
-          });
-        }
-      }
-    };
+  // The save offered on the setup screen may have been finished or replaced since it was loaded
+  const exitToMenu = () => {
+    setSavedGame(loadGame());
+    setSession(null);
+  };
 
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [activePlayerIndex, phase, selectedCardIds, mashCooldown, lastMashKey, players]);
+  const leaveMatch = () => {
+    setMatch(null);
+    setBotDuel(null);
+    exitToMenu();
+  };
 
-  // --- AI Logic Loop ---
-  useEffect(() => {
-    if (players.length === 0) return;
-    if (phase !== GamePhase.PLAYING && phase !== GamePhase.DEALER_SELECTION) return;
+  if (replay) {
+    return <ReplayViewer recording={replay} onExit={() => setReplay(null)} />;
+  }
 
-    const currentPlayer = players[activePlayerIndex];
-    if (!currentPlayer || currentPlayer.isHuman) return;
+  if (showLeaderboard) {
+    return <Leaderboard onExit={() => setShowLeaderboard(false)} />;
+  }
 
-    // AI Logic Wrapper
-    const runAITurn = () => {
-        // Create a snapshot of players to modify in this turn
-        let currentPlayersSnapshot = [...players];
-        let currentPlayerState = { ...currentPlayersSnapshot[activePlayerIndex] };
-        
-        // --- Bot Cheating Logic ---
-        // Increased probability to 40% for visibility
-        if (Math.random() < 0.40 && currentPlayerState.hand.length > 0) {
-           const cardIdx = Math.floor(Math.random() * currentPlayerState.hand.length);
-           const originalCard = currentPlayerState.hand[cardIdx];
-           const mashedCard = mashCard(originalCard);
-
-           // Apply change locally to the snapshot
-           currentPlayerState.hand = [...currentPlayerState.hand];
-           currentPlayerState.hand[cardIdx] = mashedCard;
-           
-           // Update snapshot
-           currentPlayersSnapshot[activePlayerIndex] = currentPlayerState;
-
-           // Log if beneficial
-           if (mashedCard.level > originalCard.level) {
-             addLog(`${currentPlayer.name} 似乎在袖子里藏了什么东西... (出千成功)`, 'alert');
-           }
-        }
-
-        // --- AI Dealer Phase ---
-        if (phase === GamePhase.DEALER_SELECTION) {
-            const aiReq = getAIDealerRequirement(currentPlayerState);
-            handleDealerSubmit(aiReq);
-            
-            // NOTE: handleDealerSubmit sets state async. 
-            // We need to re-find the move with the *new* requirement.
-            // Since AI just derived aiReq from its hand, it definitely has the cards.
-            const move = getAIMove(currentPlayerState, null, aiReq);
-            if (move) {
-                 executePlay(currentPlayerState.id, move, currentPlayersSnapshot);
-            }
-            return;
-        }
-
-        // --- AI Playing Phase ---
-        if (phase === GamePhase.PLAYING && !currentPlayerState.passedThisRound) {
-            if (!roundRequirement) return;
-
-            const lastMove = tableStack.length > 0 ? tableStack[tableStack.length - 1] : null;
-            
-            // Check if AI is the stack owner
-            if (lastMove && lastMove.playerId === currentPlayerState.id) {
-               handleRoundEnd(currentPlayerState.id);
-               return;
-            }
-
-            const move = getAIMove(currentPlayerState, lastMove, roundRequirement);
-
-            if (move) {
-              executePlay(currentPlayerState.id, move, currentPlayersSnapshot);
-            } else {
-              executePass(currentPlayerState.id, currentPlayersSnapshot);
-            }
-        }
-    };
+  if (online) {
+    return (
+      <OnlineLobby
+        onExit={() => setOnline(false)}
+        renderGame={remote => <GameTable initialState={remote.game} remote={remote} />}
+      />
+    );
+  }
 
-    const timer = setTimeout(runAITurn, AI_DELAY_MS);
-    return () => clearTimeout(timer);
+  // A round robin can finish with bot duels after the human's last game
+  if (match && !session) {
+    return (
+      <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4">
+        <div className="bg-slate-800 p-8 rounded-2xl shadow-2xl max-w-2xl w-full border border-slate-700 text-slate-100">
+          {botDuel ? (
+            <h1 className="text-2xl font-bold text-slate-300 mb-6 text-center animate-pulse">
+              {t('match.botDuel', { first: botDuel.game.players[0].name, second: botDuel.game.players[1].name })}
+            </h1>
+          ) : (
+            <h1 className="text-4xl font-bold text-yellow-400 mb-6 text-center">{t('match.over')}</h1>
+          )}
+          <MatchStandings match={match} />
+          <button onClick={leaveMatch} className="w-full mt-6 py-3 bg-blue-600 hover:bg-blue-500 rounded-lg text-white font-bold">{t('common.backToMenu')}</button>
+        </div>
+      </div>
+    );
+  }
 
-  }, [phase, activePlayerIndex, players, tableStack, roundRequirement]);
+  if (!session) {
+    // `?seed=...` pre-fills a shared deal
+    const sharedSeed = new URLSearchParams(window.location.search).get('seed') ?? '';
+    return (
+      <SetupScreen
+        initialSeed={sharedSeed}
+        savedGame={savedGame}
+        onResume={() => savedGame && setSession({ game: savedGame.game, clock: savedGame.clock })}
+        onStart={(seed, options, format) => format
+          ? startNextMatchGame(createMatch(format, createEntrants(options), options.rules ?? DEFAULT_RULES, seed))
+          : setSession({ game: createInitialState(seed, options) })}
+        onImportReplay={setReplay}
+        onPlayOnline={() => setOnline(true)}
+        onShowLeaderboard={() => setShowLeaderboard(true)}
+      />
+    );
+  }
 
+  return (
+    <GameTable
+      key={session.game.seed}
+      initialState={session.game}
+      initialClock={session.clock}
+      match={match ?? undefined}
+      onGameEnd={handleGameEnd}
+      onContinue={match ? () => (isMatchOver(match) ? leaveMatch() : startNextMatchGame(match)) : undefined}
+      onPlayAgain={() => setSession({ game: createInitialState(randomSeed(), getRematchOptions(session.game)) })}
+      onExit={exitToMenu}
+    />
+  );
+}
+
+interface GameTableProps {
+  initialState: GameState;
+  initialClock?: TurnClock;
+  remote?: RemoteGame; // Online play: the server owns the game and this table only renders and sends intents
+  match?: Match; // Standings to show when this game ends
+  onGameEnd?: (game: GameState) => void; // Called once when a local game finishes
+  onContinue?: () => void; // Replaces "play again" on the end screen, e.g. to deal the next game of a match
+  onPlayAgain?: () => void; // Deals a fresh game at the same table
+  onExit?: () => void; // Back to the setup screen
+}
+
+const GameTable: React.FC<GameTableProps> = ({ initialState, initialClock, remote, match, onGameEnd, onContinue, onPlayAgain, onExit }) => {
+  // --- State ---
+  // Local games keep their takeback history alongside; it is only filled in practice games
+  const [history, localDispatch] = useReducer(applyWithUndo, initialState, createUndoHistory);
+  const game = remote ? remote.game : history.game;
+  const dispatch = (action: GameAction) => {
+    if (!remote) {
+      clockAtAction.current = clock;
+      return localDispatch(action);
+    }
+    const { playerId, ...intent } = action;
+    remote.send(intent as PlayerIntent);
+  };
+  const { players, phase, activePlayerIndex, dealerIndex, roundRequirement, tableStack, logs, roundNumber } = game;
+  const [selectedCardIds, setSelectedCardIds] = useState<string[]>([]);
 
-  // --- Logic Helpers ---
+  // Turn clock: kept here for local games; online the server runs it and sends the time left
+  const [storedClock, setClock] = useState(() => initialClock ?? createClock(initialState));
+  const [remoteTimeLeft, setRemoteTimeLeft] = useState(0);
+  // The clock as it stood at each takeback checkpoint, so a takeback also gives back the time spent since
+  const clockAtAction = useRef<TurnClock | null>(null);
+  const clockCheckpoints = useRef<TurnClock[]>([]);
 
-  const advanceTurn = (currentPlayers: Player[], currentStack: PlayedSet[], currentActiveIndex: number) => {
-    let nextIndex = (currentActiveIndex + 1) % PLAYERS_COUNT;
-    let foundNext = false;
-    let winnerFound: string | null = null;
+  // Mash Mechanics State
+  const [mashCooldown, setMashCooldown] = useState(false);
+  const [mashGame, setMashGame] = useState(MashMinigame.ALTERNATE);
 
-    const lastStackItem = currentStack.length > 0 ? currentStack[currentStack.length - 1] : null;
+  const [showReplay, setShowReplay] = useState(false);
 
-    for (let i = 0; i < PLAYERS_COUNT; i++) {
-      const p = currentPlayers[nextIndex];
+  // Hint mode: dims unplayable cards, checks the selection live and cycles through legal plays
+  const hintsEnabled = useSyncExternalStore(hintsPreference.subscribe, hintsPreference.get);
+  const [hintIndex, setHintIndex] = useState(0);
 
-      if (lastStackItem && p.id === lastStackItem.playerId) {
-        winnerFound = p.id;
-        break;
-      }
+  // Keyboard: the player's bindings, where focus is in the hand, and the panels keys open
+  const keyBindings = useSyncExternalStore(keyBindingsPreference.subscribe, keyBindingsPreference.get);
+  const [focusedCardId, setFocusedCardId] = useState<string | null>(null);
+  const [showKeys, setShowKeys] = useState(false);
+  const [logOpen, setLogOpen] = useState(false);
 
-      if (!p.passedThisRound) {
-        setActivePlayerIndex(nextIndex);
-        foundNext = true;
-        break;
-      }
+  // Hot-seat: the turn whose owner has confirmed they are holding the device
+  const [revealedTurn, setRevealedTurn] = useState<string | null>(null);
 
-      nextIndex = (nextIndex + 1) % PLAYERS_COUNT;
+  // --- Seats ---
+  // With one human their hand is always shown. With several, a human's hand is shown only on
+  // their own turn and only after the handoff screen is dismissed; bot turns show no hand.
+  const activePlayer = players[activePlayerIndex];
+  const isHotSeat = !remote && players.filter(p => p.isHuman).length > 1;
+  const turnKey = getTurnKey(game);
+  const isActiveHuman = !!activePlayer?.isHuman && isTurnPhase(phase);
+  const awaitingHandoff = isHotSeat && isActiveHuman && revealedTurn !== turnKey;
+  const viewerIndex = remote
+    ? remote.seat
+    : isHotSeat
+      ? (isActiveHuman && !awaitingHandoff ? activePlayerIndex : -1)
+      : players.findIndex(p => p.isHuman);
+  // Online snapshots leave other hands empty and send their sizes separately
+  const handSize = (index: number) => remote?.handSizes[players[index].id] ?? players[index].hand.length;
+  const viewer = players[viewerIndex] ?? null;
+  const isHumanTurn = viewerIndex !== -1 && viewerIndex === activePlayerIndex && isTurnPhase(phase);
+  const isHumanDealer = isHumanTurn && phase === GamePhase.DEALER_SELECTION;
+  // Under declared openings the dealer announces the requirement before choosing cards
+  const isDeclaring = isHumanDealer && game.rules.opening === 'DECLARE';
+
+  // Read against the current game, so a move never shows (or times out on) the previous turn's clock
+  const clock = syncClock(storedClock, game);
+  const paused = !remote && clock.paused;
+  const timeLeft = remote ? remoteTimeLeft : toSeconds(getRemainingMs(clock, game));
+  const activeBank = activePlayer ? getBankMs(clock, activePlayer.id) : 0;
+  const hasBanks = !remote && game.rules.clock.bankSeconds > 0;
+
+  useEffect(() => {
+    const checkpoints = clockCheckpoints.current;
+    const count = history.checkpoints.length;
+    if (count > checkpoints.length && clockAtAction.current) {
+      clockCheckpoints.current = [...checkpoints, clockAtAction.current];
+    } else if (count < checkpoints.length) {
+      // Set from here rather than the undo handler so it lands after the undone turn's last tick
+      setClock({ ...checkpoints[count], paused });
+      clockCheckpoints.current = checkpoints.slice(0, count);
     }
+  }, [history.checkpoints.length]);
 
-    if (winnerFound) {
-      handleRoundEnd(winnerFound);
-    } else if (!foundNext) {
-      if (lastStackItem) {
-         handleRoundEnd(lastStackItem.playerId);
-      } else {
-         const nextIdx = (currentActiveIndex + 1) % PLAYERS_COUNT;
-         setActivePlayerIndex(nextIdx);
-      }
+  // A play or a new round invalidates whatever was selected
+  useEffect(() => {
+    setSelectedCardIds([]);
+    setHintIndex(0);
+  }, [tableStack.length, phase, roundNumber]);
+
+  // --- Autosave ---
+  useEffect(() => {
+    if (remote) return;
+    if (phase === GamePhase.GAME_END) clearSave();
+    else saveGame(game, clock);
+  }, [game, timeLeft, paused]);
+
+  useEffect(() => {
+    if (!remote && phase === GamePhase.GAME_END) onGameEnd?.(game);
+  }, [phase]);
+
+  // --- Timer Logic ---
+  useEffect(() => {
+    if (!isTurnPhase(phase)) return;
+
+    // Online the server keeps the clock; count down to its deadline
+    if (remote) {
+      const tick = () => setRemoteTimeLeft(remote.turnEndsAt === null ? 0 : toSeconds(Math.max(0, remote.turnEndsAt - Date.now())));
+      tick();
+      const timer = setInterval(tick, CLOCK_TICK_MS);
+      return () => clearInterval(timer);
     }
-  };
 
-  const inferRequirement = (cards: Card[]): RoundRequirement | null => {
-      if (cards.length === 0) return null;
-      
-      const count = cards.length;
-      const types = new Set(cards.map(c => c.type));
-      const levels = cards.map(c => c.level).sort((a, b) => a - b);
-      
-      let isStrictlyAscending = true;
-      for (let i = 0; i < levels.length - 1; i++) {
-          if (levels[i] >= levels[i+1]) isStrictlyAscending = false;
-      }
-      
-      // Case 1: Single Type
-      if (types.size === 1) {
-           const type = Array.from(types)[0];
-           if (count === 1) {
-               return { type: RequirementType.SINGLE_FIXED, resourceType: type, count, description: `固定: ${count} 张 ${RESOURCE_CONFIG[type].label}` };
-           }
-           if (isStrictlyAscending) {
-               return { type: RequirementType.SINGLE_ASC, resourceType: type, count, description: `递增: ${count} 张 ${RESOURCE_CONFIG[type].label}` };
-           } else {
-               return { type: RequirementType.SINGLE_FIXED, resourceType: type, count, description: `固定: ${count} 张 ${RESOURCE_CONFIG[type].label}` };
-           }
-      } 
-      // Case 2: Mixed Types
-      else {
-           if (isStrictlyAscending) {
-               return { type: RequirementType.MIXED_ASC, count, description: `混合递增: ${count} 张` };
-           } else {
-               return null; 
-           }
-      }
-  };
+    // The clock waits while the device is being handed over and while the game is paused
+    if (awaitingHandoff || paused) return;
 
-  // --- Actions ---
+    // Time is charged to the game it was spent in; the last slice is charged when the move lands
+    let last = Date.now();
+    const charge = () => {
+      const now = Date.now();
+      setClock((c: TurnClock) => tickClock(syncClock(c, game), game, now - last));
+      last = now;
+    };
+    const timer = setInterval(charge, CLOCK_TICK_MS);
+    return () => {
+      clearInterval(timer);
+      charge();
+    };
+  }, [game, awaitingHandoff, paused, remote?.turnEndsAt]);
 
-  const handleDealerSubmit = (req: RoundRequirement) => {
-    setRoundRequirement(req);
-    addLog(`${players[dealerIndex].name} 制定规则: ${req.description}`, 'alert');
-    setPhase(GamePhase.PLAYING);
-    setTableStack([]);
-    setPlayers(prev => prev.map(p => ({ ...p, passedThisRound: false })));
-  };
+  // Whoever runs out of time is timed out, bots included
+  useEffect(() => {
+    if (remote || awaitingHandoff || !isOutOfTime(clock, game)) return;
+    dispatch({ type: 'TIMEOUT', playerId: activePlayer.id });
+  }, [timeLeft, game]);
 
-  const executePlay = (playerId: string, cards: Card[], currentPlayersState: Player[] = players) => {
-    const playerIdx = currentPlayersState.findIndex(p => p.id === playerId);
-    const player = currentPlayersState[playerIdx];
-    const cardIds = cards.map(c => c.id);
-    const newHand = player.hand.filter(c => !cardIds.includes(c.id));
+  // --- AI Logic Loop ---
+  useEffect(() => {
+    if (remote || paused || !isTurnPhase(phase)) return;
 
-    const updatedPlayers = [...currentPlayersState];
-    updatedPlayers[playerIdx] = { ...updatedPlayers[playerIdx], hand: newHand };
+    const currentPlayer = players[activePlayerIndex];
+    if (!currentPlayer || currentPlayer.isHuman) return;
 
-    const newStackItem: PlayedSet = { playerId, cards, timestamp: Date.now() };
-    const updatedStack = [...tableStack, newStackItem];
+    const { thinkMs } = resolveBotBehavior(currentPlayer.bot);
+    const timer = setTimeout(() => dispatch({ type: 'BOT_TURN', playerId: currentPlayer.id }), thinkMs);
+    return () => clearTimeout(timer);
+  }, [game, paused]);
 
-    setPlayers(updatedPlayers);
-    setTableStack(updatedStack);
-    setSelectedCardIds([]); 
-    addLog(`${player.name} 打出了 ${cards.length} 张牌。`, 'action');
+  // --- Interaction Handlers ---
 
-    if (newHand.length === 0) {
-      handleGameEnd(playerId);
-      return;
-    }
+  const handleToggleCard = (card: Card) => {
+    if (!isHumanTurn) return;
 
-    advanceTurn(updatedPlayers, updatedStack, activePlayerIndex);
+    setSelectedCardIds(prev => 
+      prev.includes(card.id) ? prev.filter(id => id !== card.id) : [...prev, card.id]
+    );
   };
 
-  const executePass = (playerId: string, currentPlayersState: Player[] = players) => {
-    const playerIdx = currentPlayersState.findIndex(p => p.id === playerId);
-    const updatedPlayers = [...currentPlayersState];
-    updatedPlayers[playerIdx] = { ...updatedPlayers[playerIdx], passedThisRound: true };
-    setPlayers(updatedPlayers);
-    addLog(`${currentPlayersState[playerIdx].name} 选择放弃 (Pass)。`, 'info');
-    advanceTurn(updatedPlayers, tableStack, activePlayerIndex);
+  const handleHumanPlay = () => {
+    dispatch({ type: 'PLAY', playerId: activePlayer.id, cardIds: selectedCardIds });
   };
 
-  const handleRoundEnd = (winnerId: string) => {
-    const winnerName = players.find(p => p.id === winnerId)?.name || '未知';
-    addLog(`第 ${roundNumber} 轮结束！获胜者: ${winnerName}`, 'success');
-    
-    setPlayers(prev => prev.map(p => 
-      p.id === winnerId ? { ...p, medals: p.medals + 1 } : p
-    ));
-
-    const winnerIdx = players.findIndex(p => p.id === winnerId);
-    setDealerIndex(winnerIdx);
-    setActivePlayerIndex(winnerIdx);
-    setRoundNumber(r => r + 1);
-    
-    setPhase(GamePhase.DEALER_SELECTION);
-    setRoundRequirement(null);
-    setTableStack([]);
-    setPlayers(prev => prev.map(p => ({ ...p, passedThisRound: false })));
+  const handleDeclare = (requirement: RoundRequirement) => {
+    dispatch({ type: 'DECLARE_REQUIREMENT', playerId: activePlayer.id, requirement });
   };
 
-  const handleGameEnd = (winnerId: string) => {
-    setPhase(GamePhase.GAME_END);
-    setPlayers(currentPlayers => {
-        const sorted = [...currentPlayers].sort((a, b) => b.medals - a.medals);
-        setWinner(sorted[0]);
-        addLog(`游戏结束！最终赢家: ${sorted[0].name}`, 'success');
-        return currentPlayers;
-    });
+  const handleToggleHints = () => hintsPreference.set(!hintsEnabled);
+
+  // Each press selects the next legal play, from the cheapest to the strongest
+  const handleHint = () => {
+    if (hintPlays.length === 0) return;
+    setSelectedCardIds(hintPlays[hintIndex % hintPlays.length].map(c => c.id));
+    setHintIndex(hintIndex + 1);
   };
 
-  // --- Interaction Handlers ---
+  const handleHumanPass = () => {
+    dispatch({ type: 'PASS', playerId: activePlayer.id });
+  };
 
-  const handleToggleCard = (card: Card) => {
-    if (activePlayerIndex !== 0) return;
-    if (phase !== GamePhase.PLAYING && phase !== GamePhase.DEALER_SELECTION) return;
-    
-    setMashProgress(0);
-    setLastMashKey(null);
-    
-    setSelectedCardIds(prev => 
-      prev.includes(card.id) ? prev.filter(id => id !== card.id) : [...prev, card.id]
-    );
+  const handleChallenge = () => {
+    if (viewer) dispatch({ type: 'CHALLENGE', playerId: viewer.id });
   };
 
-  const handleHumanPlay = () => {
-    const player = players[0];
-    const selectedCards = player.hand.filter(c => selectedCardIds.includes(c.id));
-    
-    // --- Dealer Mode: Infer Rules ---
-    if (phase === GamePhase.DEALER_SELECTION) {
-        const inferredReq = inferRequirement(selectedCards);
-        if (!inferredReq) {
-            addLog("当前出牌组合无法构成有效规则 (混合类型需递增)。", 'alert');
-            return;
-        }
-        
-        setRoundRequirement(inferredReq);
-        addLog(`${player.name} 制定规则: ${inferredReq.description}`, 'alert');
-        setPhase(GamePhase.PLAYING);
-        setTableStack([]);
-        setPlayers(prev => prev.map(p => ({ ...p, passedThisRound: false })));
-        
-        // Pass current players state explicitly to avoid race condition with phase update
-        executePlay(player.id, selectedCards, players);
-        return;
-    }
 
-    // --- Normal Playing Mode ---
-    const lastMove = tableStack.length > 0 ? tableStack[tableStack.length - 1] : null;
-    const validation = validateMove(selectedCards, lastMove, roundRequirement);
-    if (!validation.valid) {
-      addLog(`出牌无效: ${validation.reason}`, 'alert');
-      return;
-    }
+  const handleTogglePause = () => {
+    setClock(setClockPaused(clock, !paused));
+  };
 
-    executePlay(player.id, selectedCards, players);
+  const handleUndo = () => {
+    localDispatch({ type: 'UNDO' });
+    setSelectedCardIds([]);
+    setHintIndex(0);
   };
 
   const handleHumanMash = (card: Card) => {
-    const newCard = mashCard(card);
-    setPlayers(prev => {
-      const copy = [...prev];
-      const p1 = { ...copy[0] };
-      p1.hand = p1.hand.map(c => c.id === card.id ? newCard : c);
-      copy[0] = p1;
-      return copy;
-    });
-
+    dispatch({ type: 'MASH', playerId: activePlayer.id, cardId: card.id });
     setMashCooldown(true);
-    setTimeout(() => setMashCooldown(false), MASH_COOLDOWN_MS);
+    setTimeout(() => setMashCooldown(false), MASH_MINIGAME_CONFIG[mashGame].cooldownMs);
+  };
 
-    const diff = newCard.level - card.level;
-    if (diff > 0) addLog("搓牌成功！点数升级！", 'success');
-    else if (diff < 0) addLog("搓牌失败！点数下降...", 'alert');
-    else addLog("搓牌无变化...", 'info');
+  // --- UI Helpers ---
+  const winner = players.find(p => p.id === game.winnerId) ?? null;
+  const lastPlayed = getLastPlayed(game);
+  const lastPlayedCards = lastPlayed ? lastPlayed.cards : [];
+  const lastPlayedPlayer = lastPlayed ? players.find(p => p.id === lastPlayed.playerId) : null;
+  const mashCard = isHumanTurn && selectedCardIds.length === 1 ? viewer?.hand.find(c => c.id === selectedCardIds[0]) ?? null : null;
+  const canTakeBack = !remote && canUndo(history) && !awaitingHandoff;
+  const canChallenge = !!viewer && !awaitingHandoff && phase === GamePhase.PLAYING && game.challengeOpen &&
+    !!lastPlayedPlayer && lastPlayedPlayer.id !== viewer.id;
+  // What the empty table is waiting for: the requirement first, then the opening play under it
+  const openingHint: MessageKey = !roundRequirement
+    ? (isHumanDealer ? (isDeclaring ? 'table.declare' : 'table.playToDeclare') : 'table.waitingForDealer')
+    : (isHumanTurn ? 'table.playOpening' : 'table.waitingForOpening');
+  const showHints = hintsEnabled && isHumanTurn && !isDeclaring && !!viewer;
+  const hintPlays = useMemo(() => (showHints ? getHintPlays(game, viewer!.id) : []), [showHints, game]);
+  const playableCardIds = getPlayableCardIds(hintPlays);
+  const dimmedCardIds = showHints ? viewer!.hand.filter(c => !playableCardIds.has(c.id)).map(c => c.id) : [];
+  // Read out to screen readers alongside the log, which announces its own new entries
+  const turnAnnouncement = !isTurnPhase(phase) || !activePlayer
+    ? ''
+    : isHumanTurn ? t('a11y.yourTurn') : t('a11y.turn', { name: activePlayer.name });
+  const countdownAnnouncement = isHumanTurn && COUNTDOWN_ANNOUNCEMENTS.includes(timeLeft)
+    ? t('a11y.secondsLeft', { seconds: timeLeft })
+    : '';
+  const selectionCheck = showHints
+    ? checkSelection(game, viewer!.hand.filter(c => selectedCardIds.includes(c.id)), hintPlays)
+    : null;
+
+  // Each shortcut does what its button would, under the same conditions
+  const handleKeyAction = (action: KeyAction) => {
+    const canAct = isHumanTurn && !isDeclaring;
+    // A paused table only answers the key that resumes it
+    if (paused && action !== KeyAction.PAUSE) return;
+    switch (action) {
+      case KeyAction.FOCUS_PREV:
+      case KeyAction.FOCUS_NEXT:
+      case KeyAction.GROUP_PREV:
+      case KeyAction.GROUP_NEXT:
+        if (viewer) setFocusedCardId(moveHandFocus(viewer.hand, focusedCardId, action));
+        return;
+      case KeyAction.TOGGLE_CARD: {
+        const card = viewer?.hand.find(c => c.id === focusedCardId);
+        if (card) handleToggleCard(card);
+        return;
+      }
+      case KeyAction.CLEAR_SELECTION:
+        if (logOpen) setLogOpen(false);
+        else setSelectedCardIds([]);
+        return;
+      case KeyAction.PLAY:
+        if (canAct && selectedCardIds.length > 0) handleHumanPlay();
+        return;
+      case KeyAction.PASS:
+        if (canAct) handleHumanPass();
+        return;
+      case KeyAction.HINT:
+        // The first press turns hint mode on; after that each press is the hint button
+        if (!hintsEnabled) handleToggleHints();
+        else handleHint();
+        return;
+      case KeyAction.CHALLENGE:
+        if (canChallenge) handleChallenge();
+        return;
+      case KeyAction.UNDO:
+        if (canTakeBack) handleUndo();
+        return;
+      case KeyAction.TOGGLE_LOG:
+        setLogOpen(!logOpen);
+        return;
+      case KeyAction.PAUSE:
+        if (!remote) handleTogglePause();
+        return;
+      case KeyAction.SHOW_KEYS:
+        setShowKeys(true);
+        return;
+    }
   };
 
-  // --- Render Guards ---
-  
-  if (players.length === 0) {
-    return (
-      <div className="h-screen bg-slate-900 text-slate-100 flex items-center justify-center">
-        <div className="animate-pulse flex flex-col items-center">
-           <div className="text-4xl mb-4">🃏</div>
-           <div className="text-xl font-bold">正在初始化资源对战...</div>
-        </div>
-      </div>
-    );
-  }
+  // Re-registered every render so the handler sees the current table; paused while the cheat sheet
+  // is open, since it captures keys to rebind them
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (showKeys || !isTurnPhase(phase) || e.ctrlKey || e.metaKey || e.altKey || isTextEntry(e.target)) return;
+      const action = findKeyAction(keyBindings, normalizeKey(e));
+      if (!action) return;
+      e.preventDefault();
+      handleKeyAction(action);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
 
-  // --- UI Helpers ---
-  const activePlayer = players[activePlayerIndex];
-  const isHumanTurn = activePlayerIndex === 0 && (phase === GamePhase.PLAYING || phase === GamePhase.DEALER_SELECTION);
-  const isHumanDealer = activePlayerIndex === 0 && phase === GamePhase.DEALER_SELECTION;
-  const lastPlayedCards = tableStack.length > 0 ? tableStack[tableStack.length - 1].cards : [];
-  const lastPlayedPlayer = tableStack.length > 0 ? players.find(p => p.id === tableStack[tableStack.length - 1].playerId) : null;
+  if (phase === GamePhase.GAME_END && showReplay) {
+      return <ReplayViewer recording={createRecording(game)} onExit={() => setShowReplay(false)} />;
+  }
 
   if (phase === GamePhase.GAME_END) {
       return (
           <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4">
               <div className="bg-slate-800 p-8 rounded-2xl shadow-2xl text-center max-w-2xl w-full border border-slate-700">
-                  <h1 className="text-5xl font-bold text-yellow-400 mb-6">游戏结束</h1>
+                  <h1 className="text-5xl font-bold text-yellow-400 mb-6">{t('end.title')}</h1>
                   <div className="text-2xl text-white mb-8">
-                      获胜者: <span className="font-bold text-emerald-400">{winner?.name}</span>
+                      {t('end.winner')} <span className="font-bold text-emerald-400">{winner?.name}</span>
+                  </div>
+                  {game.undoUsed && <div className="text-sm text-amber-300 mb-4">{t('end.unrated')}</div>}
+                  <div className="mb-6"><GameStatsDashboard game={game} /></div>
+                  {match && <div className="mb-8"><MatchStandings match={match} /></div>}
+                  <div className="flex justify-center gap-3">
+                      <button onClick={() => setShowReplay(true)} className="px-6 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg text-white font-bold">{t('end.watchReplay')}</button>
+                      <button onClick={() => downloadRecording(createRecording(game))} className="px-6 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg text-white font-bold">{t('common.exportReplay')}</button>
+                      {remote ? (
+                        <button onClick={remote.onExit} className="px-8 py-3 bg-blue-600 hover:bg-blue-500 rounded-lg text-white font-bold">{t('common.leaveRoom')}</button>
+                      ) : onContinue ? (
+                        <button onClick={onContinue} className="px-8 py-3 bg-blue-600 hover:bg-blue-500 rounded-lg text-white font-bold">
+                          {t(match && isMatchOver(match) ? 'common.backToMenu' : 'end.nextGame')}
+                        </button>
+                      ) : (
+                        <>
+                          <button onClick={onExit} className="px-6 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg text-white font-bold">{t('end.menu')}</button>
+                          <button onClick={onPlayAgain} className="px-8 py-3 bg-blue-600 hover:bg-blue-500 rounded-lg text-white font-bold">{t('end.playAgain')}</button>
+                        </>
+                      )}
                   </div>
-                  <button onClick={() => window.location.reload()} className="px-8 py-3 bg-blue-600 hover:bg-blue-500 rounded-lg text-white font-bold">再玩一次</button>
               </div>
           </div>
       )
@@ -486,8 +499,56 @@ export default function App() {
   return (
     <div className="h-screen flex flex-col bg-slate-900 text-slate-100 overflow-hidden">
       
+      {/* Requirement Declaration */}
+      <DealerModal isOpen={isDeclaring && !awaitingHandoff} hand={viewer?.hand ?? []} rules={game.rules} onSubmit={handleDeclare} />
+
+      {/* Screen Reader Announcements */}
+      <div className="sr-only" aria-live="polite">{turnAnnouncement}</div>
+      <div className="sr-only" aria-live="assertive">{countdownAnnouncement}</div>
+
+      {/* Keyboard Cheat Sheet */}
+      {showKeys && <KeyCheatSheet bindings={keyBindings} onChange={keyBindingsPreference.set} onClose={() => setShowKeys(false)} />}
+
+      {/* Full Game Log */}
+      {logOpen && (
+          <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/60 p-8" onClick={() => setLogOpen(false)}>
+              <div className="w-full max-w-xl h-[70vh]" onClick={(e) => e.stopPropagation()}>
+                  <GameLog logs={logs} announce={false} />
+              </div>
+          </div>
+      )}
+
+      {/* Hot-seat Handoff */}
+      {awaitingHandoff && (
+          <div className="fixed inset-0 z-[60] bg-slate-900 flex items-center justify-center">
+              <div className="bg-slate-800 p-8 rounded-2xl shadow-2xl text-center max-w-md w-full border border-slate-700">
+                  <div className="text-sm text-slate-400 mb-2">{t('handoff.passTo')}</div>
+                  <div className="text-4xl font-bold text-yellow-400 mb-6">{activePlayer.name}</div>
+                  <button
+                    onClick={() => setRevealedTurn(turnKey)}
+                    className="px-8 py-3 bg-emerald-600 hover:bg-emerald-500 rounded-lg text-white font-bold"
+                  >
+                    {t('handoff.ready')}
+                  </button>
+              </div>
+          </div>
+      )}
+
+      {/* Pause */}
+      {paused && (
+          <div className="fixed inset-0 z-50 bg-slate-900/90 backdrop-blur-sm flex items-center justify-center">
+              <div className="bg-slate-800 p-8 rounded-2xl shadow-2xl text-center max-w-md w-full border border-slate-700">
+                  <div className="text-4xl font-bold text-yellow-400 mb-3">{t('clock.paused')}</div>
+                  <p className="text-sm text-slate-400 mb-6">{t('clock.pausedHint')}</p>
+                  <button onClick={handleTogglePause} className="px-8 py-3 bg-emerald-600 hover:bg-emerald-500 rounded-lg text-white font-bold">
+                    ▶ {t('clock.resume')}
+                  </button>
+              </div>
+          </div>
+      )}
+
       {/* Large Countdown Overlay */}
-      {timeLeft <= 5 && isHumanTurn && (
+      {timeLeft <= 5 && isHumanTurn && !paused && (
           <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 pointer-events-none z-50">
             <div className="text-9xl font-bold text-red-500/50 animate-ping">
               {timeLeft}
@@ -498,18 +559,28 @@ export default function App() {
       {/* --- Top Bar --- */}
       <header className="flex-none bg-slate-800 p-3 shadow-md flex justify-between items-center z-10 border-b border-slate-700">
         <div className="flex items-center space-x-6">
-          <div className="bg-slate-700 px-3 py-1 rounded text-sm font-mono">第 {roundNumber} 轮</div>
+          {match && (
+            <div className="bg-purple-900/40 px-3 py-1 rounded text-sm border border-purple-500/30">
+              {describeMatchFormat(match.format)} · {t('match.game', { game: match.results.length + 1 })}
+            </div>
+          )}
+          {game.practice && (
+            <div className="bg-amber-900/40 px-3 py-1 rounded text-sm border border-amber-500/30 text-amber-200">
+              {t(game.undoUsed ? 'undo.unrated' : 'undo.practice')}
+            </div>
+          )}
+          <div className="bg-slate-700 px-3 py-1 rounded text-sm font-mono">{t('common.round', { round: roundNumber })}</div>
           <div className="text-sm">
-             领出者: <span className="text-yellow-400 font-bold">{players[dealerIndex]?.name}</span>
+             {t('common.dealer')}: <span className="text-yellow-400 font-bold">{players[dealerIndex]?.name}</span>
           </div>
           {roundRequirement ? (
             <div className="flex items-center gap-2 bg-blue-900/40 px-3 py-1 rounded border border-blue-500/30">
-               <span className="text-blue-300 text-xs uppercase tracking-wider font-bold">本轮规则</span>
-               <span className="font-medium text-blue-100">{roundRequirement.description}</span>
+               <span className="text-blue-300 text-xs uppercase tracking-wider font-bold">{t('table.requirement')}</span>
+               <span className="font-medium text-blue-100">{t(describeRequirement(roundRequirement))}</span>
             </div>
           ) : (
              <div className="flex items-center gap-2 bg-yellow-900/40 px-3 py-1 rounded border border-yellow-500/30">
-               <span className="text-yellow-300 text-xs uppercase tracking-wider font-bold">等待制定规则</span>
+               <span className="text-yellow-300 text-xs uppercase tracking-wider font-bold">{t('table.awaitingRequirement')}</span>
              </div>
           )}
         </div>
@@ -518,7 +589,21 @@ export default function App() {
              <div className={`text-xl font-mono font-bold ${timeLeft <= 5 ? 'text-red-500 animate-pulse' : 'text-slate-400'}`}>
                 {timeLeft}s
              </div>
-             <div className="text-xs text-slate-400">终局资源博弈 Demo</div>
+             {hasBanks && isTurnPhase(phase) && (
+               <div className="text-xs font-mono text-slate-500">{t('clock.bank', { seconds: toSeconds(activeBank) })}</div>
+             )}
+             {!remote && (
+               <button onClick={handleTogglePause} className="text-xs px-2 py-1 rounded border border-slate-600 text-slate-300 hover:text-white">
+                 ⏸ {t('clock.pause')}
+               </button>
+             )}
+             {remote ? (
+               <button onClick={remote.onExit} className="text-xs text-slate-400 hover:text-white">{t('common.leaveRoom')}</button>
+             ) : (
+               <div className="text-xs text-slate-500 font-mono" title={t('table.seedHint')}>{t('common.seed', { seed: game.seed })}</div>
+             )}
+             <ContrastSwitch />
+             <LanguageSwitch />
         </div>
       </header>
 
@@ -529,20 +614,23 @@ export default function App() {
         <div className="flex-1 flex flex-col relative">
           
           {/* Opponents Area */}
-          <div className="flex justify-around p-4">
-            {players.slice(1).map((p, idx) => (
+          <div className="flex flex-wrap justify-around gap-2 p-4">
+            {players.map((p, idx) => idx !== viewerIndex && (
               <div key={p.id} className={`
                  flex flex-col items-center p-3 rounded-lg transition-all
-                 ${activePlayerIndex === idx + 1 ? 'bg-yellow-500/10 ring-2 ring-yellow-500' : 'bg-slate-800/50'}
+                 ${activePlayerIndex === idx ? 'bg-yellow-500/10 ring-2 ring-yellow-500' : 'bg-slate-800/50'}
                  ${p.passedThisRound ? 'opacity-40 grayscale' : ''}
               `}>
                  <div className="w-10 h-10 rounded-full bg-slate-700 flex items-center justify-center mb-2 shadow-inner">
-                    Bot
+                    {t(p.isHuman ? 'table.human' : 'table.bot')}
                  </div>
                  <div className="text-sm font-bold">{p.name}</div>
-                 <div className="text-xs text-slate-400 mt-1">手牌: {p.hand.length}</div>
+                 {p.bot && <div className="text-[10px] text-slate-500">{formatBotProfile(p.bot)}</div>}
+                 <div className="text-xs text-slate-400 mt-1">{t('common.handSize', { count: handSize(idx) })}</div>
                  <div className="text-xs text-yellow-500 mt-1">🏅 {p.medals}</div>
-                 {p.passedThisRound && <span className="text-red-400 font-bold text-xs mt-1">已放弃</span>}
+                 {hasBanks && <div className="text-[10px] font-mono text-slate-500">{t('clock.bank', { seconds: toSeconds(getBankMs(clock, p.id)) })}</div>}
+                 {p.passedThisRound && <span className="text-red-400 font-bold text-xs mt-1">{t('common.passed')}</span>}
+                 {game.noticedMashers.includes(p.id) && <span className="text-purple-300 text-xs mt-1">{t('table.mashedThisRound')}</span>}
               </div>
             ))}
           </div>
@@ -551,12 +639,12 @@ export default function App() {
           <div className="flex-1 flex flex-col items-center justify-center relative">
             {tableStack.length === 0 ? (
                <div className="text-slate-600 font-bold text-2xl border-4 border-dashed border-slate-700 rounded-2xl p-8">
-                  {isHumanDealer ? "请出牌以制定规则" : "等待领出者制定规则..."}
+                  {t(openingHint)}
                </div>
             ) : (
                <div className="relative animate-in zoom-in duration-300">
                   <div className="absolute -top-10 left-0 w-full text-center text-sm text-slate-400">
-                     上一手出牌: <span className="text-white font-bold">{lastPlayedPlayer?.name}</span>
+                     {t('table.lastPlay')} <span className="text-white font-bold">{lastPlayedPlayer?.name}</span>
                   </div>
                   <div className="flex -space-x-4">
                      {lastPlayedCards.map(c => (
@@ -568,7 +656,7 @@ export default function App() {
             
             {activePlayer && (
                 <div className="absolute bottom-4 text-center animate-pulse flex flex-col items-center gap-1">
-                    <span className="text-xs uppercase tracking-widest text-slate-500">当前回合</span>
+                    <span className="text-xs uppercase tracking-widest text-slate-500">{t('table.currentTurn')}</span>
                     <div className="text-xl font-bold text-yellow-400">{activePlayer.name}</div>
                 </div>
             )}
@@ -578,55 +666,107 @@ export default function App() {
           <div className="flex-none bg-slate-850 border-t border-slate-700 z-20 relative">
              
              {/* Mash Visual Feedback Overlay */}
-             {selectedCardIds.length === 1 && (isHumanTurn || isHumanDealer) && !mashCooldown && (
-                <div className="absolute bottom-full mb-4 left-1/2 -translate-x-1/2 bg-slate-800/90 border border-slate-600 p-3 rounded-xl shadow-xl flex flex-col items-center gap-2 animate-in slide-in-from-bottom-2 fade-in backdrop-blur-sm z-30">
-                   <div className="text-xs font-bold text-purple-300 uppercase tracking-wider">搓牌模式 (Cheat)</div>
-                   <div className="flex gap-4">
-                      <div className={`w-10 h-10 rounded-lg border-2 flex items-center justify-center font-bold text-lg transition-all ${lastMashKey === 'a' ? 'bg-purple-600 border-purple-400 text-white scale-110 shadow-[0_0_15px_rgba(168,85,247,0.5)]' : 'bg-slate-700 border-slate-500 text-slate-400'}`}>A</div>
-                      <div className={`w-10 h-10 rounded-lg border-2 flex items-center justify-center font-bold text-lg transition-all ${lastMashKey === 'd' ? 'bg-purple-600 border-purple-400 text-white scale-110 shadow-[0_0_15px_rgba(168,85,247,0.5)]' : 'bg-slate-700 border-slate-500 text-slate-400'}`}>D</div>
-                   </div>
-                   <div className="w-40 h-2 bg-slate-700 rounded-full overflow-hidden border border-slate-600">
-                      <div className="h-full bg-gradient-to-r from-purple-500 to-pink-500 transition-all duration-100" style={{ width: `${mashProgress}%` }}></div>
-                   </div>
-                   <div className="text-[10px] text-slate-400">交替狂按 A / D 键来改变点数</div>
+             {mashCard && !mashCooldown && !showKeys && (
+                <div className="absolute bottom-full mb-4 left-1/2 -translate-x-1/2 z-30">
+                   <MashPanel
+                     card={mashCard}
+                     rules={game.rules}
+                     minigame={mashGame}
+                     onMinigameChange={setMashGame}
+                     mashesLeft={getMashesLeft(game, activePlayer.id)}
+                     onComplete={() => handleHumanMash(mashCard)}
+                   />
                 </div>
              )}
              {mashCooldown && selectedCardIds.length === 1 && (
                   <div className="absolute bottom-full mb-4 left-1/2 -translate-x-1/2 text-red-300 font-bold text-xs bg-red-900/80 px-4 py-2 rounded-full border border-red-500/50 animate-pulse">
-                      ⚠️ 冷却中...
+                      ⚠️ {t('table.cooldown')}
                   </div>
              )}
 
              {/* Action Bar */}
              <div className="flex justify-between items-center px-6 py-2 bg-slate-800 border-b border-slate-700 h-14">
                 <div className="text-sm text-slate-400">
-                   你的奖牌: <span className="text-yellow-400 font-bold text-lg ml-1">{players[0].medals}</span>
+                   {viewer ? (
+                     <>
+                       {isHotSeat ? t('table.playerMedals', { name: viewer.name }) : t('table.yourMedals')} <span className="text-yellow-400 font-bold text-lg ml-1">{viewer.medals}</span>
+                       {hasBanks && <span className="ml-3 text-xs font-mono text-slate-500">{t('clock.bank', { seconds: toSeconds(getBankMs(clock, viewer.id)) })}</span>}
+                       {selectionCheck && (
+                         <div className={`text-xs ${selectionCheck.valid ? 'text-emerald-400' : selectionCheck.canComplete ? 'text-slate-400' : 'text-red-400'}`}>
+                           {selectionCheck.valid || selectionCheck.canComplete ? t(selectionCheck.message) : t('hint.deadEnd', { reason: selectionCheck.message })}
+                         </div>
+                       )}
+                     </>
+                   ) : (
+                     <span className="italic">{t('table.waitingFor', { name: activePlayer?.name ?? '' })}</span>
+                   )}
                 </div>
                 
                 <div className="flex gap-3">
+                   <button
+                     onClick={handleToggleHints}
+                     title={t('hint.modeHint')}
+                     className={`px-3 py-1.5 rounded border transition text-sm ${hintsEnabled ? 'bg-amber-500/20 text-amber-200 border-amber-500' : 'bg-slate-700/40 text-slate-400 border-slate-600 hover:text-white'}`}
+                   >
+                     💡 {t(hintsEnabled ? 'hint.modeOn' : 'hint.modeOff')}
+                   </button>
+                   {showHints && (
+                     <button
+                       onClick={handleHint}
+                       disabled={hintPlays.length === 0}
+                       title={hintPlays.length === 0 ? t('hint.none') : undefined}
+                       className="px-4 py-1.5 rounded bg-amber-600/20 text-amber-100 border border-amber-600 hover:bg-amber-600 hover:text-white transition disabled:opacity-30 disabled:cursor-not-allowed"
+                     >
+                       {hintIndex === 0 || hintPlays.length === 0
+                         ? t('hint.button')
+                         : t('hint.next', { index: ((hintIndex - 1) % hintPlays.length) + 1, total: hintPlays.length })}
+                     </button>
+                   )}
+                   {!remote && game.practice && (
+                     <button
+                       onClick={handleUndo}
+                       disabled={!canTakeBack}
+                       title={t('undo.hint')}
+                       className="px-4 py-1.5 rounded bg-slate-700/40 text-slate-200 border border-slate-500 hover:bg-slate-600 hover:text-white transition disabled:opacity-30 disabled:cursor-not-allowed"
+                     >
+                       ↶ {t('undo.button')}
+                     </button>
+                   )}
+                   {canChallenge && (
+                     <button
+                       onClick={handleChallenge}
+                       title={t('table.challengeHint')}
+                       className="px-4 py-1.5 rounded bg-purple-600/20 text-purple-200 border border-purple-600 hover:bg-purple-600 hover:text-white transition"
+                     >
+                       {t('table.challenge', { name: lastPlayedPlayer!.name })}
+                     </button>
+                   )}
                    <button 
-                     onClick={() => executePass(players[0].id, players)}
+                     onClick={handleHumanPass}
                      disabled={!isHumanTurn}
                      className="px-4 py-1.5 rounded bg-red-600/20 text-red-200 border border-red-600 hover:bg-red-600 hover:text-white transition disabled:opacity-30 disabled:cursor-not-allowed hidden sm:block"
                    >
-                     放弃 (Pass)
+                     {t('table.pass')}
                    </button>
                    <button 
                      onClick={handleHumanPlay}
                      disabled={(!isHumanTurn && !isHumanDealer) || selectedCardIds.length === 0}
                      className="px-6 py-1.5 rounded bg-emerald-600 text-white font-bold hover:bg-emerald-500 transition shadow-lg disabled:opacity-30 disabled:cursor-not-allowed disabled:shadow-none"
                    >
-                     {isHumanDealer ? "制定规则并出牌" : "出牌"}
+                     {t(isHumanDealer ? 'table.declareAndPlay' : 'table.play')}
                    </button>
                 </div>
              </div>
 
              {/* Cards */}
              <PlayerHand 
-               hand={players[0].hand} 
+               hand={viewer ? viewer.hand : []} 
                selectedCards={selectedCardIds}
                onToggleCard={handleToggleCard}
                disabled={!isHumanTurn && !isHumanDealer} 
+               dimmedCards={dimmedCardIds}
+               focusedCard={focusedCardId}
+               onFocusCard={card => setFocusedCardId(card.id)}
              />
           </div>
         </div>
@@ -636,41 +776,56 @@ export default function App() {
            
            {/* Requirement Summary */}
            <div className="bg-slate-800 p-3 rounded-lg border border-slate-700">
-              <h3 className="text-xs uppercase font-bold text-slate-500 mb-2">当前规则</h3>
+              <h3 className="text-xs uppercase font-bold text-slate-500 mb-2">{t('table.currentRequirement')}</h3>
               {roundRequirement ? (
                   <div className="space-y-1 text-sm">
                       <div className="flex justify-between">
-                          <span className="text-slate-400">类型:</span>
-                          <span className="text-right text-white">{roundRequirement.type.split('(')[0]}</span>
+                          <span className="text-slate-400">{t('table.type')}</span>
+                          <span className="text-right text-white">{t(`requirementType.${roundRequirement.type as RequirementType}.short`)}</span>
                       </div>
                       {roundRequirement.resourceType && (
                         <div className="flex justify-between">
-                            <span className="text-slate-400">资源:</span>
-                            <span className="text-right text-white">{RESOURCE_CONFIG[roundRequirement.resourceType].label}</span>
+                            <span className="text-slate-400">{t('table.resource')}</span>
+                            <span className="text-right text-white">{t(`resource.${roundRequirement.resourceType as ResourceType}`)}</span>
                         </div>
                       )}
                       <div className="flex justify-between">
-                          <span className="text-slate-400">数量:</span>
+                          <span className="text-slate-400">{t('table.count')}</span>
                           <span className="text-right text-yellow-400 font-bold">{roundRequirement.count}</span>
                       </div>
                   </div>
               ) : (
                   <div className="text-slate-500 text-sm italic">
-                    {isHumanDealer ? "请出牌以设定本轮规则" : "等待领出者制定规则..."}
+                    {t(openingHint)}
                   </div>
               )}
            </div>
 
            {/* Game Rules Info */}
            <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 text-xs space-y-2">
-              <h3 className="uppercase font-bold text-slate-500">游戏规则</h3>
+              <h3 className="uppercase font-bold text-slate-500">{t('table.rulesTitle')}</h3>
               <ul className="list-disc pl-4 space-y-1 text-slate-300">
-                <li><span className="text-slate-400">点数范围:</span> 1-7</li>
-                <li><span className="text-slate-400">出牌:</span> 必须符合当前轮次类型和数量。</li>
-                <li><span className="text-slate-400">压制:</span> 总点数必须 <span className="text-yellow-400 font-bold">&ge;</span> 上一家。</li>
-                <li><span className="text-purple-400 font-bold">搓牌 (出千):</span> 选中 <span className="text-white font-bold">1</span> 张牌，交替狂按 <span className="font-mono bg-slate-700 px-1 rounded text-white">A</span> / <span className="font-mono bg-slate-700 px-1 rounded text-white">D</span> 键。</li>
-                <li><span className="text-slate-400">风险:</span> 成功升级点数，失败则降低。Bot 也会尝试出千。</li>
+                {describeRules(game.rules).map(line => (
+                  <li key={line.label}><span className="text-slate-400">{line.label}:</span> {line.value}</li>
+                ))}
+                <li><span className="text-slate-400">{t('help.play.label')}</span> {t('help.play')}</li>
+                <li><span className="text-purple-400 font-bold">{t('help.mash.label')}</span> {t('help.mash')}</li>
+                <li><span className="text-slate-400">{t('help.risk.label')}</span> {t('help.risk')}</li>
               </ul>
+              <div className="pt-2 border-t border-slate-700">
+                <div className="flex justify-between items-center mb-1">
+                  <h3 className="uppercase font-bold text-slate-500">{t('keys.title')}</h3>
+                  <button onClick={() => setShowKeys(true)} className="text-slate-400 hover:text-white">{t('keys.customize')}</button>
+                </div>
+                <div className="grid grid-cols-2 gap-x-3 gap-y-0.5">
+                  {Object.values(KeyAction).map(action => (
+                    <div key={action} className="flex justify-between gap-1">
+                      <span className="text-slate-400 truncate">{t(`keys.action.${action}`)}</span>
+                      <kbd className="font-mono text-slate-200">{formatKey(keyBindings[action])}</kbd>
+                    </div>
+                  ))}
+                </div>
+              </div>
            </div>
 
            {/* Logs */}
@@ -682,4 +837,4 @@ export default function App() {
       </main>
     </div>
   );
-}
\ No newline at end of file
+};
@@ -1,33 +1,78 @@
-import React from 'react';
-import { Card } from '../types';
+import React, { useEffect, useRef } from 'react';
+import { Card, ResourceType } from '../types';
 import { RESOURCE_CONFIG } from '../constants';
+import { useHighContrast } from './ContrastSwitch';
+import { t } from '../services/i18n';
 
 interface CardItemProps {
   card: Card;
   selected?: boolean;
-  onClick?: () => void;
+  onClick?: () => void; // Makes the card a toggle button; without it the card is only an image
   small?: boolean;
+  dimmed?: boolean; // Cannot be part of any legal play right now
+  focused?: boolean; // Where keyboard navigation is in the hand; takes the browser focus too
+  disabled?: boolean; // Not the viewer's turn: still focusable so the hand can be read out
+  onFocus?: () => void;
 }
 
-export const CardItem: React.FC<CardItemProps> = ({ card, selected, onClick, small }) => {
+export const cardLabel = (card: Card) => t('card.label', { resource: t(`resource.${card.type as ResourceType}`), level: card.level });
+
+export const CardItem: React.FC<CardItemProps> = ({ card, selected, onClick, small, dimmed, focused, disabled, onFocus }) => {
   const config = RESOURCE_CONFIG[card.type];
-  const sizeClasses = small 
-    ? "w-10 h-14 text-xs" 
+  const highContrast = useHighContrast();
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const sizeClasses = small
+    ? "w-10 h-14 text-xs"
     : "w-16 h-24 sm:w-20 sm:h-28 text-sm sm:text-base";
 
-  return (
-    <div 
-      onClick={onClick}
-      className={`
-        relative rounded-lg shadow-md border-2 transition-all duration-200 cursor-pointer select-none
-        flex flex-col items-center justify-center
+  useEffect(() => {
+    if (focused) buttonRef.current?.focus();
+  }, [focused]);
+
+  const label = cardLabel(card);
+  const ariaLabel = selected
+    ? t('card.selected', { card: label })
+    : dimmed ? t('card.unplayable', { card: label }) : label;
+  const className = `
+        relative rounded-lg shadow-md border-2 transition-all duration-200 select-none
+        flex flex-col items-center justify-center focus:outline-none
+        ${onClick ? 'cursor-pointer' : ''}
         ${config.color} ${config.text}
-        ${selected ? 'border-yellow-400 -translate-y-4 ring-2 ring-yellow-400 z-20' : 'border-slate-700 hover:-translate-y-4 hover:z-10'}
+        ${selected ? 'border-yellow-400 -translate-y-4 ring-2 ring-yellow-400 z-20' : `${highContrast ? 'border-white' : 'border-slate-700'} hover:-translate-y-4 hover:z-10`}
+        ${dimmed && !selected ? 'opacity-40 saturate-50' : ''}
+        ${focused ? 'outline outline-2 outline-offset-2 outline-sky-400' : ''}
         ${sizeClasses}
-      `}
+      `;
+  const style = highContrast ? { backgroundImage: config.pattern } : undefined;
+  const face = (
+    <>
+      {highContrast && (
+        <span aria-hidden="true" className="absolute top-0.5 left-1 text-[10px] font-black leading-none text-white drop-shadow">
+          {t(`resource.badge.${card.type as ResourceType}`)}
+        </span>
+      )}
+      <div aria-hidden="true" className={`font-bold ${highContrast ? 'text-white drop-shadow' : ''}`}>{card.level}</div>
+      <div aria-hidden="true" className="text-lg sm:text-2xl">{config.icon}</div>
+    </>
+  );
+
+  if (!onClick) {
+    return <div role="img" aria-label={label} className={className} style={style}>{face}</div>;
+  }
+
+  return (
+    <button
+      ref={buttonRef}
+      type="button"
+      onClick={onClick}
+      onFocus={onFocus}
+      aria-pressed={!!selected}
+      aria-label={ariaLabel}
+      aria-disabled={disabled || undefined}
+      className={className}
+      style={style}
     >
-      <div className="font-bold">{card.level}</div>
-      <div className="text-lg sm:text-2xl">{config.icon}</div>
-    </div>
+      {face}
+    </button>
   );
-};
\ No newline at end of file
+};
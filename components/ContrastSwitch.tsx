@@ -0,0 +1,21 @@
+import React, { useSyncExternalStore } from 'react';
+import { getHighContrast, setHighContrast, subscribeHighContrast } from '../services/accessibility';
+import { t } from '../services/i18n';
+
+// Re-renders the calling component whenever high-contrast mode is switched
+export const useHighContrast = () => useSyncExternalStore(subscribeHighContrast, getHighContrast);
+
+// Toggle for color-blind-safe cards; sits next to the language picker
+export const ContrastSwitch: React.FC = () => {
+  const highContrast = useHighContrast();
+  return (
+    <button
+      onClick={() => setHighContrast(!highContrast)}
+      aria-pressed={highContrast}
+      title={t('a11y.contrastHint')}
+      className={`rounded px-1.5 py-0.5 text-xs border ${highContrast ? 'bg-white text-slate-900 border-white font-bold' : 'bg-slate-900 border-slate-700 text-slate-300'}`}
+    >
+      ◐ {t('a11y.contrast')}
+    </button>
+  );
+};
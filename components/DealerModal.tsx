@@ -1,62 +1,84 @@
 import React, { useState } from 'react';
-import { RequirementType, ResourceType, RoundRequirement } from '../types';
-import { RESOURCE_CONFIG } from '../constants';
+import { Card, RequirementType, ResourceType, RoundRequirement, RuleSet } from '../types';
+import { BOMB_SIZE, RESOURCE_CONFIG } from '../constants';
+import { canOpenRound } from '../services/gameLogic';
+import { t } from '../services/i18n';
 
 interface DealerModalProps {
   isOpen: boolean;
+  hand: Card[]; // Options this hand cannot open are disabled
+  rules: RuleSet;
   onSubmit: (req: RoundRequirement) => void;
 }
 
-export const DealerModal: React.FC<DealerModalProps> = ({ isOpen, onSubmit }) => {
+const needsResource = (type: RequirementType) => type === RequirementType.SINGLE_FIXED || type === RequirementType.SINGLE_ASC;
+
+export const DealerModal: React.FC<DealerModalProps> = ({ isOpen, hand, rules, onSubmit }) => {
   const [selectedType, setSelectedType] = useState<RequirementType>(RequirementType.SINGLE_FIXED);
   const [resource, setResource] = useState<ResourceType>(ResourceType.SOLDIER);
   const [count, setCount] = useState<number>(1);
 
   if (!isOpen) return null;
 
-  const handleSubmit = () => {
-    let desc = "";
-    if (selectedType === RequirementType.SINGLE_FIXED) desc = `固定: ${count} 张 ${RESOURCE_CONFIG[resource].label}`;
-    else if (selectedType === RequirementType.SINGLE_ASC) desc = `递增: ${count} 张 ${RESOURCE_CONFIG[resource].label}`;
-    else desc = `混合递增: 任意 ${count} 张`;
+  // A bomb round takes any bomb, so its count is fixed; otherwise anything the rule set and the hand allow
+  const maxCount = Math.min(rules.maxRequirementCount ?? hand.length, hand.length);
+  const countsFor = (type: RequirementType) => type === RequirementType.BOMB
+    ? [BOMB_SIZE]
+    : Array.from({ length: Math.max(0, maxCount - rules.minRequirementCount + 1) }, (_, i) => rules.minRequirementCount + i);
+  const resourcesFor = (type: RequirementType) => (needsResource(type) ? Object.values(ResourceType) : [undefined]);
+  const canOpen = (type: RequirementType, resourceType: ResourceType | undefined, n: number) =>
+    canOpenRound(hand, { type, resourceType, count: n }, rules);
+  const canOpenWith = (type: RequirementType, resourceType: ResourceType | undefined) =>
+    countsFor(type).some(n => canOpen(type, resourceType, n));
+  const canOpenType = (type: RequirementType) => resourcesFor(type).some(r => canOpenWith(type, r));
+
+  // Picks the hand can no longer make fall back to the first option it can
+  const type = canOpenType(selectedType) ? selectedType : Object.values(RequirementType).find(canOpenType) ?? selectedType;
+  const resourceType = needsResource(type)
+    ? (canOpenWith(type, resource) ? resource : Object.values(ResourceType).find(r => canOpenWith(type, r)) ?? resource)
+    : undefined;
+  const counts = countsFor(type);
+  const chosenCount = canOpen(type, resourceType, count) ? count : counts.find(n => canOpen(type, resourceType, n)) ?? count;
+  const valid = canOpen(type, resourceType, chosenCount);
 
-    onSubmit({
-      type: selectedType,
-      resourceType: selectedType !== RequirementType.MIXED_ASC ? resource : undefined,
-      count,
-      description: desc
-    });
+  const handleSubmit = () => {
+    if (!valid) return;
+    onSubmit({ type, resourceType, count: chosenCount });
   };
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm">
       <div className="bg-slate-800 p-6 rounded-xl border border-slate-600 shadow-2xl max-w-md w-full animate-in fade-in zoom-in duration-200">
-        <h2 className="text-2xl font-bold text-yellow-400 mb-4">你是领出者！</h2>
-        <p className="text-slate-300 mb-6">请制定本轮规则。</p>
+        <h2 className="text-2xl font-bold text-yellow-400 mb-4">{t('dealer.title')}</h2>
+        <p className="text-slate-300 mb-6">{t('dealer.prompt')}</p>
 
         <div className="space-y-4">
           <div>
-            <label className="block text-sm font-semibold text-slate-400 mb-1">出牌模式</label>
-            <select 
-              value={selectedType} 
+            <label className="block text-sm font-semibold text-slate-400 mb-1">{t('dealer.type')}</label>
+            <select
+              value={type}
               onChange={(e) => setSelectedType(e.target.value as RequirementType)}
               className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white"
             >
-              <option value={RequirementType.SINGLE_FIXED}>{RequirementType.SINGLE_FIXED}</option>
-              <option value={RequirementType.SINGLE_ASC}>{RequirementType.SINGLE_ASC}</option>
-              <option value={RequirementType.MIXED_ASC}>{RequirementType.MIXED_ASC}</option>
+              {Object.values(RequirementType).map(option => (
+                <option key={option} value={option} disabled={!canOpenType(option)}>
+                  {t(`requirementType.${option}.label`)}
+                </option>
+              ))}
             </select>
           </div>
 
-          {selectedType !== RequirementType.MIXED_ASC && (
+          {resourceType && (
             <div>
-              <label className="block text-sm font-semibold text-slate-400 mb-1">指定资源</label>
+              <label className="block text-sm font-semibold text-slate-400 mb-1">{t('dealer.resource')}</label>
               <div className="flex gap-2">
                 {Object.values(ResourceType).map(r => (
                   <button
                     key={r}
                     onClick={() => setResource(r)}
-                    className={`flex-1 p-2 rounded border ${resource === r ? 'bg-blue-600 border-blue-400' : 'bg-slate-900 border-slate-700 opacity-60'}`}
+                    disabled={!canOpenWith(type, r)}
+                    title={canOpenWith(type, r) ? t(`resource.${r}`) : t('dealer.unavailable')}
+                    className={`flex-1 p-2 rounded border disabled:opacity-20 disabled:cursor-not-allowed ${resourceType === r ? 'bg-blue-600 border-blue-400' : 'bg-slate-900 border-slate-700 opacity-60'}`}
                   >
                     {RESOURCE_CONFIG[r].icon}
                   </button>
@@ -66,25 +88,31 @@ export const DealerModal: React.FC<DealerModalProps> = ({ isOpen, onSubmit }) =>
           )}
 
           <div>
-            <label className="block text-sm font-semibold text-slate-400 mb-1">数量 ({count})</label>
-            <input 
-              type="range" 
-              min="1" 
-              max="5" 
-              value={count} 
-              onChange={(e) => setCount(parseInt(e.target.value))}
-              className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer"
-            />
+            <label className="block text-sm font-semibold text-slate-400 mb-1">{t('dealer.count', { count: chosenCount })}</label>
+            <div className="flex flex-wrap gap-2">
+              {counts.map(n => (
+                <button
+                  key={n}
+                  onClick={() => setCount(n)}
+                  disabled={!canOpen(type, resourceType, n)}
+                  title={canOpen(type, resourceType, n) ? undefined : t('dealer.unavailable')}
+                  className={`w-10 py-1 rounded border font-mono disabled:opacity-20 disabled:cursor-not-allowed ${chosenCount === n ? 'bg-blue-600 border-blue-400' : 'bg-slate-900 border-slate-700'}`}
+                >
+                  {n}
+                </button>
+              ))}
+            </div>
           </div>
 
-          <button 
+          <button
             onClick={handleSubmit}
-            className="w-full py-3 bg-yellow-500 hover:bg-yellow-400 text-slate-900 font-bold rounded-lg mt-4 transition-colors"
+            disabled={!valid}
+            className="w-full py-3 bg-yellow-500 hover:bg-yellow-400 text-slate-900 font-bold rounded-lg mt-4 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
           >
-            开始本轮
+            {t('dealer.submit')}
           </button>
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { GameState } from '../types';
+import { scoreGame } from '../services/scoring';
+import { t } from '../services/i18n';
+
+interface FinalStandingsProps {
+  game: GameState;
+}
+
+const signed = (value: number) => (value > 0 ? `+${value}` : value < 0 ? `${value}` : '0');
+
+// Ranked end-of-game table with how each total was made up
+export const FinalStandings: React.FC<FinalStandingsProps> = ({ game }) => {
+  const lines = scoreGame(game);
+
+  return (
+    <div className="bg-slate-900/60 rounded-lg border border-slate-700 p-3 text-left">
+      <div className="mb-2 text-xs text-slate-400 font-bold uppercase tracking-wider">{t('standings.title')}</div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-slate-500">
+            <th className="text-left font-normal py-1">{t('table.rank')}</th>
+            <th className="text-left font-normal">{t('table.player')}</th>
+            <th className="text-right font-normal">{t('table.medals')}</th>
+            <th className="text-right font-normal">{t('standings.wentOut')}</th>
+            <th className="text-right font-normal">{t('standings.handValue')}</th>
+            <th className="text-right font-normal">{t('standings.total')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map(line => (
+            <tr key={line.player.id} className={line.rank === 1 ? 'text-yellow-400 font-bold' : 'text-slate-200'}>
+              <td className="py-1">{line.rank}</td>
+              <td>{line.player.name}</td>
+              <td className="text-right">
+                {line.medals} <span className="text-[10px] text-slate-500">({signed(line.medalPoints)})</span>
+              </td>
+              <td className="text-right">{line.wentOut ? signed(line.goOutBonus) : '-'}</td>
+              <td className="text-right">
+                {line.handValue} <span className="text-[10px] text-slate-500">({signed(-line.handPenalty)})</span>
+              </td>
+              <td className="text-right">{line.total}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -1,7 +1,13 @@
 import React, { useEffect, useRef } from 'react';
 import { LogEntry } from '../types';
+import { t } from '../services/i18n';
 
-export const GameLog: React.FC<{ logs: LogEntry[] }> = ({ logs }) => {
+interface GameLogProps {
+  logs: LogEntry[];
+  announce?: boolean; // Read new entries out to screen readers; only one copy of the log on screen should
+}
+
+export const GameLog: React.FC<GameLogProps> = ({ logs, announce = true }) => {
   const bottomRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -10,8 +16,14 @@ export const GameLog: React.FC<{ logs: LogEntry[] }> = ({ logs }) => {
 
   return (
     <div className="flex flex-col h-full bg-slate-800 rounded-lg p-2 border border-slate-700">
-      <h3 className="text-slate-400 text-xs uppercase font-bold mb-2 tracking-wider">战斗日志</h3>
-      <div className="flex-1 overflow-y-auto scrollbar-hide space-y-1">
+      <h3 className="text-slate-400 text-xs uppercase font-bold mb-2 tracking-wider">{t('log.title')}</h3>
+      <div
+        role="log"
+        aria-live={announce ? 'polite' : 'off'}
+        aria-relevant="additions"
+        aria-label={t('log.title')}
+        className="flex-1 overflow-y-auto scrollbar-hide space-y-1"
+      >
         {logs.map((log) => (
           <div key={log.id} className={`text-xs p-1.5 rounded border-l-2 ${
             log.type === 'action' ? 'border-blue-500 bg-blue-900/20 text-blue-200' :
@@ -19,7 +31,7 @@ export const GameLog: React.FC<{ logs: LogEntry[] }> = ({ logs }) => {
             log.type === 'success' ? 'border-yellow-500 bg-yellow-900/20 text-yellow-200' :
             'border-slate-500 text-slate-300'
           }`}>
-            {log.text}
+            {t(log.message)}
           </div>
         ))}
         <div ref={bottomRef} />
@@ -0,0 +1,126 @@
+import React, { useMemo, useState } from 'react';
+import { GameState, MessageKey } from '../types';
+import { PlayerStats, getMedalTimeline, getPlayerStats } from '../services/stats';
+import { FinalStandings } from './FinalStandings';
+import { t } from '../services/i18n';
+
+interface GameStatsDashboardProps {
+  game: GameState;
+}
+
+type Tab = 'STANDINGS' | 'STATS' | 'MEDALS';
+
+const TABS: Tab[] = ['STANDINGS', 'STATS', 'MEDALS'];
+
+// One color per seat, shared by the chart lines and the legend
+const SEAT_COLORS = ['#facc15', '#34d399', '#60a5fa', '#f472b6', '#a78bfa', '#fb923c'];
+
+// Rows of the statistics table: one per figure, one column per player
+const STAT_ROWS: { label: MessageKey; value: (s: PlayerStats) => string }[] = [
+  { label: 'stats.roundsWon', value: s => `${s.roundsWon}` },
+  { label: 'stats.dealerRounds', value: s => `${s.dealerRounds} (${s.dealerRoundsWon})` },
+  { label: 'stats.plays', value: s => `${s.plays}` },
+  { label: 'stats.passes', value: s => `${s.passes}` },
+  { label: 'stats.averagePlay', value: s => (s.plays > 0 ? s.averagePlay.toFixed(1) : '-') },
+  { label: 'stats.cardsLeft', value: s => `${s.cardsLeft}` },
+  { label: 'stats.mashes', value: s => `${s.mashes.upgraded} / ${s.mashes.unchanged} / ${s.mashes.downgraded}` },
+  { label: 'stats.timeouts', value: s => `${s.timeouts}` },
+];
+
+const StatsTable: React.FC<{ stats: PlayerStats[] }> = ({ stats }) => (
+  <table className="w-full text-sm">
+    <thead>
+      <tr className="text-xs text-slate-500">
+        <th className="text-left font-normal py-1"></th>
+        {stats.map(s => <th key={s.player.id} className="text-right font-normal">{s.player.name}</th>)}
+      </tr>
+    </thead>
+    <tbody>
+      {STAT_ROWS.map(row => (
+        <tr key={row.label} className="border-t border-slate-700/60 text-slate-200">
+          <td className="py-1 text-slate-400">{t(row.label)}</td>
+          {stats.map(s => <td key={s.player.id} className="text-right font-mono">{row.value(s)}</td>)}
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const CHART_WIDTH = 480;
+const CHART_HEIGHT = 180;
+const CHART_PAD = 24;
+
+// Medals held after each round, one line per player
+const MedalChart: React.FC<{ game: GameState }> = ({ game }) => {
+  const timeline = getMedalTimeline(game);
+  const maxMedals = Math.max(1, ...timeline.flatMap(snapshot => Object.values(snapshot.medals)));
+  const x = (i: number) => CHART_PAD + (i * (CHART_WIDTH - 2 * CHART_PAD)) / Math.max(1, timeline.length - 1);
+  const y = (medals: number) => CHART_HEIGHT - CHART_PAD - (medals * (CHART_HEIGHT - 2 * CHART_PAD)) / maxMedals;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+        {Array.from({ length: maxMedals + 1 }, (_, m) => (
+          <g key={m}>
+            <line x1={CHART_PAD} x2={CHART_WIDTH - CHART_PAD} y1={y(m)} y2={y(m)} stroke="#334155" strokeWidth={1} />
+            <text x={CHART_PAD - 6} y={y(m) + 4} textAnchor="end" fontSize={10} fill="#64748b">{m}</text>
+          </g>
+        ))}
+        {timeline.map((snapshot, i) => (
+          <text key={i} x={x(i)} y={CHART_HEIGHT - 6} textAnchor="middle" fontSize={10} fill="#64748b">{snapshot.round}</text>
+        ))}
+        {game.players.map((p, seat) => (
+          <polyline
+            key={p.id}
+            points={timeline.map((snapshot, i) => `${x(i)},${y(snapshot.medals[p.id] ?? 0)}`).join(' ')}
+            fill="none"
+            stroke={SEAT_COLORS[seat % SEAT_COLORS.length]}
+            strokeWidth={2}
+          />
+        ))}
+      </svg>
+      <div className="flex flex-wrap justify-center gap-3 mt-2 text-xs">
+        {game.players.map((p, seat) => (
+          <span key={p.id} className="flex items-center gap-1 text-slate-300">
+            <span className="inline-block w-3 h-1 rounded" style={{ backgroundColor: SEAT_COLORS[seat % SEAT_COLORS.length] }}></span>
+            {p.name}
+          </span>
+        ))}
+      </div>
+      <div className="text-center text-[10px] text-slate-500 mt-1">{t('stats.chartAxes')}</div>
+    </div>
+  );
+};
+
+// End-of-game screen body: standings, per-player figures and the medal race
+export const GameStatsDashboard: React.FC<GameStatsDashboardProps> = ({ game }) => {
+  const [tab, setTab] = useState<Tab>('STANDINGS');
+  const stats = useMemo(() => getPlayerStats(game), [game]);
+
+  return (
+    <div className="text-left">
+      <div className="flex gap-1 mb-2">
+        {TABS.map(id => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            className={`px-3 py-1 rounded text-xs font-bold border ${id === tab ? 'bg-blue-600 border-blue-400 text-white' : 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600'}`}
+          >
+            {t(`stats.tab.${id}`)}
+          </button>
+        ))}
+      </div>
+      {tab === 'STANDINGS' && <FinalStandings game={game} />}
+      {tab === 'STATS' && (
+        <div className="bg-slate-900/60 rounded-lg border border-slate-700 p-3 overflow-x-auto">
+          <StatsTable stats={stats} />
+        </div>
+      )}
+      {tab === 'MEDALS' && (
+        <div className="bg-slate-900/60 rounded-lg border border-slate-700 p-3">
+          <MedalChart game={game} />
+        </div>
+      )}
+    </div>
+  );
+};
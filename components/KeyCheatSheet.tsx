@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { KeyAction, KeyBindings, Message } from '../types';
+import { DEFAULT_KEY_BINDINGS } from '../constants';
+import { formatKey, getBindingConflict, normalizeKey } from '../services/keyboard';
+import { t } from '../services/i18n';
+
+interface KeyCheatSheetProps {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+  onClose: () => void;
+}
+
+// Every shortcut with its key; picking one waits for the next key press and binds it
+export const KeyCheatSheet: React.FC<KeyCheatSheetProps> = ({ bindings, onChange, onClose }) => {
+  const [editing, setEditing] = useState<KeyAction | null>(null);
+  const [error, setError] = useState<Message | null>(null);
+
+  // Captures ahead of the table's shortcuts, which are paused while the sheet is open
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || ['shift', 'control', 'meta', 'alt'].includes(normalizeKey(e))) return;
+      const key = normalizeKey(e);
+      if (!editing) {
+        // Other keys are left alone so the sheet's own buttons still work from the keyboard
+        if (key !== 'escape' && key !== bindings[KeyAction.SHOW_KEYS]) return;
+        e.preventDefault();
+        onClose();
+        return;
+      }
+      e.preventDefault();
+      if (key === 'escape') {
+        setEditing(null);
+        return;
+      }
+      const conflict = getBindingConflict(bindings, editing, key);
+      setError(conflict);
+      if (conflict) return;
+      onChange({ ...bindings, [editing]: key });
+      setEditing(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editing, bindings, onChange, onClose]);
+
+  const startEditing = (action: KeyAction) => {
+    setEditing(action);
+    setError(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm" onClick={onClose}>
+      <div className="bg-slate-800 p-6 rounded-xl border border-slate-600 shadow-2xl max-w-md w-full" onClick={(e) => e.stopPropagation()}>
+        <h2 className="text-xl font-bold text-yellow-400 mb-1">{t('keys.sheetTitle')}</h2>
+        <p className="text-xs text-slate-400 mb-4">{t('keys.sheetHint', { key: formatKey(bindings[KeyAction.SHOW_KEYS]) })}</p>
+
+        <div className="space-y-1">
+          {Object.values(KeyAction).map(action => (
+            <div key={action} className="flex items-center justify-between text-sm">
+              <span className="text-slate-300">{t(`keys.action.${action}`)}</span>
+              <div className="flex items-center gap-2">
+                <kbd className="min-w-[2.5rem] text-center px-2 py-0.5 rounded bg-slate-900 border border-slate-600 font-mono text-xs text-white">
+                  {editing === action ? '…' : formatKey(bindings[action])}
+                </kbd>
+                <button
+                  onClick={() => startEditing(action)}
+                  className={`px-2 py-0.5 rounded text-xs border ${editing === action ? 'bg-blue-600 border-blue-400 text-white' : 'bg-slate-700 border-slate-600 text-slate-300 hover:text-white'}`}
+                >
+                  {t(editing === action ? 'keys.press' : 'keys.change')}
+                </button>
+                <button
+                  onClick={() => onChange({ ...bindings, [action]: '' })}
+                  disabled={!bindings[action]}
+                  title={t('keys.unbind')}
+                  className="px-2 py-0.5 rounded text-xs border bg-slate-700 border-slate-600 text-slate-300 hover:text-white disabled:opacity-30"
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {error && <div className="text-xs text-red-400 mt-3">{t(error)}</div>}
+
+        <div className="flex justify-between mt-6">
+          <button
+            onClick={() => onChange(DEFAULT_KEY_BINDINGS)}
+            className="px-4 py-2 rounded bg-slate-700 hover:bg-slate-600 text-sm text-white"
+          >
+            {t('keys.reset')}
+          </button>
+          <button onClick={onClose} className="px-6 py-2 rounded bg-blue-600 hover:bg-blue-500 text-sm text-white font-bold">
+            {t('keys.close')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,21 @@
+import React, { useSyncExternalStore } from 'react';
+import { Locale, LOCALES, getLocale, setLocale, subscribeLocale } from '../services/i18n';
+
+// Re-renders the calling component whenever the language changes
+export const useLocale = () => useSyncExternalStore(subscribeLocale, getLocale);
+
+// Compact language picker; the choice is remembered in the browser
+export const LanguageSwitch: React.FC = () => {
+  const locale = useLocale();
+  return (
+    <select
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+      className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-300"
+    >
+      {(Object.keys(LOCALES) as Locale[]).map(l => (
+        <option key={l} value={l}>{LOCALES[l].label}</option>
+      ))}
+    </select>
+  );
+};
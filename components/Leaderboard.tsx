@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { clearRatings, getLeaderboard } from '../services/ratings';
+import { t } from '../services/i18n';
+
+interface LeaderboardProps {
+  onExit: () => void;
+}
+
+export const Leaderboard: React.FC<LeaderboardProps> = ({ onExit }) => {
+  const [ratings, setRatings] = useState(getLeaderboard);
+
+  const handleReset = () => {
+    clearRatings();
+    setRatings([]);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4">
+      <div className="bg-slate-800 p-8 rounded-2xl shadow-2xl max-w-lg w-full border border-slate-700 text-slate-100">
+        <h1 className="text-3xl font-bold text-yellow-400 mb-1">{t('leaderboard.title')}</h1>
+        <p className="text-slate-400 text-sm mb-6">{t('leaderboard.subtitle')}</p>
+
+        {ratings.length === 0 ? (
+          <div className="text-center text-slate-500 italic py-8">{t('leaderboard.empty')}</div>
+        ) : (
+          <table className="w-full text-sm mb-6">
+            <thead>
+              <tr className="text-xs text-slate-500">
+                <th className="text-left font-normal py-1">{t('table.rank')}</th>
+                <th className="text-left font-normal">{t('table.player')}</th>
+                <th className="text-right font-normal">{t('leaderboard.rating')}</th>
+                <th className="text-right font-normal">{t('leaderboard.games')}</th>
+                <th className="text-right font-normal">{t('leaderboard.winRate')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ratings.map((r, i) => (
+                <tr key={r.key} className="border-t border-slate-700/60">
+                  <td className="py-2">{i + 1}</td>
+                  <td className="font-bold">{r.name}</td>
+                  <td className="text-right font-mono text-yellow-300">{Math.round(r.rating)}</td>
+                  <td className="text-right">{r.games}</td>
+                  <td className="text-right">{r.games ? `${Math.round((r.wins / r.games) * 100)}%` : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="flex gap-3">
+          <button onClick={onExit} className="flex-1 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg">{t('common.back')}</button>
+          {ratings.length > 0 && (
+            <button onClick={handleReset} className="px-4 py-2 bg-red-900/60 hover:bg-red-800 text-red-200 rounded-lg text-sm">{t('leaderboard.reset')}</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,213 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, MashMinigame, RuleSet } from '../types';
+import { MASH_LIMIT_PER_ROUND } from '../constants';
+import { getMashOdds } from '../services/mash';
+import { t } from '../services/i18n';
+
+interface MashPanelProps {
+  card: Card;
+  rules: RuleSet;
+  minigame: MashMinigame;
+  onMinigameChange: (minigame: MashMinigame) => void;
+  mashesLeft: number;
+  onComplete: () => void; // The minigame was cleared: roll the card
+}
+
+interface MinigameProps {
+  onComplete: () => void;
+}
+
+const TICK_MS = 30;
+const RHYTHM_ZONE = [40, 60];
+const RHYTHM_HITS = 3;
+const HOLD_ZONE = [70, 90];
+
+const keyClass = (active: boolean) =>
+  `w-10 h-10 rounded-lg border-2 flex items-center justify-center font-bold text-lg transition-all ${active ? 'bg-purple-600 border-purple-400 text-white scale-110 shadow-[0_0_15px_rgba(168,85,247,0.5)]' : 'bg-slate-700 border-slate-500 text-slate-400'}`;
+
+// A bar with a highlighted target zone and a marker or fill level
+const Meter: React.FC<{ value: number; zone?: number[]; fill?: boolean }> = ({ value, zone, fill }) => (
+  <div className="relative w-40 h-2 bg-slate-700 rounded-full overflow-hidden border border-slate-600">
+    {zone && <div className="absolute inset-y-0 bg-emerald-500/60" style={{ left: `${zone[0]}%`, width: `${zone[1] - zone[0]}%` }}></div>}
+    {fill
+      ? <div className="h-full bg-gradient-to-r from-purple-500 to-pink-500 transition-all duration-100" style={{ width: `${value}%` }}></div>
+      : <div className="absolute inset-y-0 w-1 bg-white" style={{ left: `${value}%` }}></div>}
+  </div>
+);
+
+// Space must not also press whatever button has focus
+const isSpace = (e: KeyboardEvent) => {
+  if (e.code !== 'Space') return false;
+  e.preventDefault();
+  return true;
+};
+
+// Alternate A and D; each press in the right order fills the bar a bit
+const AlternateGame: React.FC<MinigameProps> = ({ onComplete }) => {
+  const [progress, setProgress] = useState(0);
+  const [lastKey, setLastKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const key = e.key.toLowerCase();
+      if ((key !== 'a' && key !== 'd') || key === lastKey) return;
+      setLastKey(key);
+      const next = progress + 15; // ~7 presses to complete
+      if (next >= 100) {
+        setProgress(0);
+        onComplete();
+      } else {
+        setProgress(next);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [progress, lastKey, onComplete]);
+
+  return (
+    <>
+      <div className="flex gap-4">
+        <div className={keyClass(lastKey === 'a')}>A</div>
+        <div className={keyClass(lastKey === 'd')}>D</div>
+      </div>
+      <Meter value={progress} fill />
+    </>
+  );
+};
+
+// A marker sweeps back and forth; press Space while it is in the zone, a miss starts over
+const RhythmGame: React.FC<MinigameProps> = ({ onComplete }) => {
+  const [position, setPosition] = useState(0);
+  const [hits, setHits] = useState(0);
+  const positionRef = useRef(0);
+  const direction = useRef(1);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      let next = positionRef.current + direction.current * 4;
+      if (next >= 100 || next <= 0) {
+        direction.current = -direction.current;
+        next = Math.min(100, Math.max(0, next));
+      }
+      positionRef.current = next;
+      setPosition(next);
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!isSpace(e) || e.repeat) return;
+      const inZone = positionRef.current >= RHYTHM_ZONE[0] && positionRef.current <= RHYTHM_ZONE[1];
+      if (!inZone) return setHits(0);
+      if (hits + 1 >= RHYTHM_HITS) {
+        setHits(0);
+        onComplete();
+      } else {
+        setHits(hits + 1);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [hits, onComplete]);
+
+  return (
+    <>
+      <div className="flex gap-1">
+        {Array.from({ length: RHYTHM_HITS }, (_, i) => (
+          <div key={i} className={`w-3 h-3 rounded-full ${i < hits ? 'bg-emerald-400' : 'bg-slate-600'}`}></div>
+        ))}
+      </div>
+      <Meter value={position} zone={RHYTHM_ZONE} />
+    </>
+  );
+};
+
+// Hold Space to charge and let go inside the zone; holding too long empties the bar
+const HoldGame: React.FC<MinigameProps> = ({ onComplete }) => {
+  const [charge, setCharge] = useState(0);
+  const [holding, setHolding] = useState(false);
+  const chargeRef = useRef(0);
+
+  useEffect(() => {
+    if (!holding) return;
+    const timer = setInterval(() => {
+      const next = chargeRef.current + 3;
+      chargeRef.current = next > 100 ? 0 : next;
+      setCharge(chargeRef.current);
+      if (next > 100) setHolding(false);
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [holding]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isSpace(e) && !e.repeat) setHolding(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (!isSpace(e) || !holding) return;
+      const inZone = chargeRef.current >= HOLD_ZONE[0] && chargeRef.current <= HOLD_ZONE[1];
+      setHolding(false);
+      chargeRef.current = 0;
+      setCharge(0);
+      if (inZone) onComplete();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [holding, onComplete]);
+
+  return (
+    <>
+      <div className={keyClass(holding)}>␣</div>
+      <Meter value={charge} zone={HOLD_ZONE} fill />
+    </>
+  );
+};
+
+const MINIGAMES: Record<MashMinigame, React.FC<MinigameProps>> = {
+  [MashMinigame.ALTERNATE]: AlternateGame,
+  [MashMinigame.RHYTHM]: RhythmGame,
+  [MashMinigame.HOLD]: HoldGame,
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const MashPanel: React.FC<MashPanelProps> = ({ card, rules, minigame, onMinigameChange, mashesLeft, onComplete }: MashPanelProps) => {
+  const odds = getMashOdds(card.level, rules);
+  const Minigame = MINIGAMES[minigame];
+
+  return (
+    <div className="bg-slate-800/90 border border-slate-600 p-3 rounded-xl shadow-xl flex flex-col items-center gap-2 animate-in slide-in-from-bottom-2 fade-in backdrop-blur-sm">
+      <div className="text-xs font-bold text-purple-300 uppercase tracking-wider">{t('mash.title')}</div>
+      <div className="flex gap-1">
+        {Object.values(MashMinigame).map(m => (
+          <button
+            key={m}
+            onClick={() => onMinigameChange(m)}
+            className={`px-2 py-0.5 rounded text-[10px] border ${m === minigame ? 'bg-purple-600 border-purple-400 text-white' : 'bg-slate-700 border-slate-600 text-slate-300'}`}
+          >
+            {t(`minigame.${m}.label`)}
+          </button>
+        ))}
+      </div>
+      {mashesLeft > 0 ? (
+        <>
+          <Minigame key={`${card.id}-${minigame}`} onComplete={onComplete} />
+          <div className="text-[10px] text-slate-400">{t(`minigame.${minigame}.description`)}</div>
+        </>
+      ) : (
+        <div className="text-xs text-red-300">{t('mash.exhausted')}</div>
+      )}
+      <div className="text-[10px] flex gap-2">
+        <span className="text-emerald-300">{t('mash.better', { chance: percent(odds.better) })}</span>
+        <span className="text-slate-300">{t('mash.same', { chance: percent(odds.same) })}</span>
+        <span className="text-red-300">{t('mash.worse', { chance: percent(odds.worse) })}</span>
+      </div>
+      <div className="text-[10px] text-slate-500">{t('mash.left', { left: mashesLeft, limit: MASH_LIMIT_PER_ROUND })}</div>
+    </div>
+  );
+};
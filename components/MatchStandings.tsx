@@ -0,0 +1,51 @@
+import React from 'react';
+import { Match } from '../types';
+import { formatBotProfile } from '../services/botProfiles';
+import { countUnfinished, describeMatchFormat, getStandings, isMatchOver } from '../services/match';
+import { t } from '../services/i18n';
+
+interface MatchStandingsProps {
+  match: Match;
+}
+
+// Cumulative table shown between the games of a match and at its end
+export const MatchStandings: React.FC<MatchStandingsProps> = ({ match }) => {
+  const standings = getStandings(match);
+  const over = isMatchOver(match);
+  const unfinished = countUnfinished(match);
+
+  return (
+    <div className="bg-slate-900/60 rounded-lg border border-slate-700 p-3 text-left">
+      <div className="flex justify-between items-center mb-2 text-xs text-slate-400">
+        <span className="font-bold uppercase tracking-wider">{describeMatchFormat(match.format)}</span>
+        <span>{over ? t('match.over') : t('match.played', { games: match.results.length })}</span>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-slate-500">
+            <th className="text-left font-normal py-1">{t('table.rank')}</th>
+            <th className="text-left font-normal">{t('match.entrant')}</th>
+            <th className="text-right font-normal">{t('match.games')}</th>
+            <th className="text-right font-normal">{t('match.wins')}</th>
+            <th className="text-right font-normal">{t('table.medals')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {standings.map((s, i) => (
+            <tr key={s.entrant.key} className={i === 0 && over ? 'text-yellow-400 font-bold' : 'text-slate-200'}>
+              <td className="py-1">{i + 1}</td>
+              <td>
+                {s.entrant.name}
+                {s.entrant.bot && <span className="ml-2 text-[10px] text-slate-500">{formatBotProfile(s.entrant.bot)}</span>}
+              </td>
+              <td className="text-right">{s.played}</td>
+              <td className="text-right">{s.wins}</td>
+              <td className="text-right">{s.medals}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {unfinished > 0 && <div className="text-xs text-amber-300 mt-2">{t('match.unfinished', { games: unfinished })}</div>}
+    </div>
+  );
+};
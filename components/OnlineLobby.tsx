@@ -0,0 +1,256 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ClientMessage, DEFAULT_SERVER_URL, LobbySnapshot, ServerMessage } from '../services/protocol';
+import { DEFAULT_PLAYER_COUNT, MAX_PLAYERS, MAX_PLAYER_NAME_LENGTH, MIN_PLAYERS } from '../constants';
+import { Message, RulePreset } from '../types';
+import {
+  ConnectionStatus, RemoteGame, ServerConnection, connectToServer, loadOnlineSession, saveOnlineSession
+} from '../services/netClient';
+import { msg, t } from '../services/i18n';
+import { LanguageSwitch } from './LanguageSwitch';
+
+interface OnlineLobbyProps {
+  onExit: () => void;
+  renderGame: (remote: RemoteGame) => React.ReactNode;
+}
+
+interface Snapshot {
+  game: RemoteGame['game'];
+  handSizes: Record<string, number>;
+  turnEndsAt: number | null;
+}
+
+export const OnlineLobby: React.FC<OnlineLobbyProps> = ({ onExit, renderGame }) => {
+  const storedSession = useRef(loadOnlineSession());
+  const [url, setUrl] = useState(storedSession.current?.url ?? DEFAULT_SERVER_URL);
+  const [name, setName] = useState('');
+  const [roomCode, setRoomCode] = useState('');
+  const [playerCount, setPlayerCount] = useState(DEFAULT_PLAYER_COUNT);
+  const [rulePreset, setRulePreset] = useState(RulePreset.CLASSIC);
+  const [status, setStatus] = useState<ConnectionStatus | null>(null);
+  const [error, setError] = useState<Message | null>(null);
+  const [seat, setSeat] = useState<number | null>(null);
+  const [lobby, setLobby] = useState<LobbySnapshot | null>(null);
+  const [snapshot, setSnapshot] = useState<Snapshot | null>(null);
+
+  const connection = useRef<ServerConnection | null>(null);
+  const firstMessage = useRef<ClientMessage | null>(null); // Sent on the first connect; later connects resume
+  const resuming = useRef(false);
+
+  const disconnect = () => {
+    connection.current?.close();
+    connection.current = null;
+    setStatus(null);
+    setSeat(null);
+    setLobby(null);
+    setSnapshot(null);
+  };
+
+  const handleMessage = (message: ServerMessage, target: string) => {
+    switch (message.type) {
+      case 'JOINED':
+        resuming.current = false;
+        firstMessage.current = null;
+        saveOnlineSession({ url: target, roomId: message.roomId, token: message.token });
+        setSeat(message.seat);
+        setError(null);
+        break;
+      case 'LOBBY':
+        setLobby(message.lobby);
+        break;
+      case 'SNAPSHOT':
+        setSnapshot({
+          game: message.game,
+          handSizes: message.handSizes,
+          turnEndsAt: message.turnTimeLeftMs === null ? null : Date.now() + message.turnTimeLeftMs,
+        });
+        break;
+      case 'ERROR':
+        setError(message.message);
+        // The room is gone: forget it instead of retrying forever
+        if (resuming.current) {
+          resuming.current = false;
+          saveOnlineSession(null);
+          disconnect();
+        }
+        break;
+    }
+  };
+
+  const connect = (target: string, first: ClientMessage | null) => {
+    connection.current?.close();
+    firstMessage.current = first;
+    connection.current = connectToServer(target, {
+      onOpen: () => {
+        const session = loadOnlineSession();
+        if (session && session.url === target) {
+          resuming.current = true;
+          connection.current?.send({ type: 'RESUME', roomId: session.roomId, token: session.token });
+        } else if (firstMessage.current) {
+          connection.current?.send(firstMessage.current);
+        }
+      },
+      onMessage: (message) => handleMessage(message, target),
+      onStatus: setStatus,
+    });
+  };
+
+  // A refresh mid-game picks the seat back up
+  useEffect(() => {
+    if (storedSession.current) connect(storedSession.current.url, null);
+    return () => connection.current?.close();
+  }, []);
+
+  const handleCreate = () => {
+    if (!name.trim()) return setError(msg('lobby.needName'));
+    connect(url, { type: 'CREATE_ROOM', name: name.trim(), playerCount, rulePreset });
+  };
+
+  const handleJoin = () => {
+    if (!name.trim()) return setError(msg('lobby.needName'));
+    if (!roomCode.trim()) return setError(msg('lobby.needRoom'));
+    connect(url, { type: 'JOIN_ROOM', roomId: roomCode.trim().toUpperCase(), name: name.trim() });
+  };
+
+  const handleLeave = () => {
+    connection.current?.send({ type: 'LEAVE' });
+    saveOnlineSession(null);
+    disconnect();
+    onExit();
+  };
+
+  if (snapshot && seat !== null) {
+    return (
+      <>
+        {status !== 'OPEN' && (
+          <div className="fixed top-0 inset-x-0 z-[70] bg-red-900/90 text-red-100 text-center text-sm py-1">
+            {t('lobby.reconnecting')}
+          </div>
+        )}
+        {renderGame({
+          ...snapshot,
+          seat,
+          send: (intent) => connection.current?.send({ type: 'INTENT', intent }),
+          onExit: handleLeave,
+        })}
+      </>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4">
+      <div className="bg-slate-800 p-8 rounded-2xl shadow-2xl max-w-md w-full border border-slate-700 text-slate-100">
+        <div className="flex justify-between items-start">
+          <h1 className="text-3xl font-bold text-yellow-400 mb-1">{t('setup.online')}</h1>
+          <LanguageSwitch />
+        </div>
+        <p className="text-slate-400 text-sm mb-6">{t('lobby.subtitle')}</p>
+
+        {lobby && seat !== null ? (
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <span className="text-slate-400 text-sm">{t('lobby.roomCode')}</span>
+              <span className="font-mono text-2xl font-bold tracking-widest text-yellow-300">{lobby.roomId}</span>
+            </div>
+            <div className="text-xs text-slate-400">
+              {t('lobby.rules')} <span className="text-slate-200">{t(`preset.${lobby.rulePreset as RulePreset}.label`)}</span> · {t(`preset.${lobby.rulePreset as RulePreset}.description`)}
+            </div>
+            {lobby.seats.map(s => (
+              <div key={s.seat} className="flex items-center justify-between bg-slate-900/60 p-3 rounded-lg border border-slate-700">
+                <span className="font-bold">
+                  {s.name ?? <span className="text-slate-500 font-normal italic">{t('lobby.openSeat')}</span>}
+                  {s.seat === seat && <span className="ml-2 text-xs text-emerald-400">{t('lobby.you')}</span>}
+                  {s.seat === lobby.hostSeat && <span className="ml-2 text-xs text-yellow-400">{t('lobby.host')}</span>}
+                </span>
+                {s.name && <span className={`text-xs ${s.connected ? 'text-emerald-400' : 'text-red-400'}`}>{t(s.connected ? 'lobby.online' : 'lobby.offline')}</span>}
+              </div>
+            ))}
+            {seat === lobby.hostSeat ? (
+              <button
+                onClick={() => connection.current?.send({ type: 'START_GAME' })}
+                className="w-full py-3 bg-emerald-600 hover:bg-emerald-500 text-white font-bold rounded-lg transition-colors"
+              >
+                {t('setup.start')}
+              </button>
+            ) : (
+              <div className="text-center text-slate-400 text-sm py-3">{t('lobby.waitingForHost')}</div>
+            )}
+            <button onClick={handleLeave} className="w-full py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm">{t('common.leaveRoom')}</button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div>
+              <label className="block text-sm font-semibold text-slate-400 mb-1">{t('lobby.server')}</label>
+              <input
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white font-mono text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-slate-400 mb-1">{t('lobby.name')}</label>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={MAX_PLAYER_NAME_LENGTH}
+                className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-semibold text-slate-400">{t('setup.playerCount')}</label>
+              <select
+                value={playerCount}
+                onChange={(e) => setPlayerCount(parseInt(e.target.value, 10))}
+                className="bg-slate-900 border border-slate-700 rounded p-1 text-sm text-white"
+              >
+                {Array.from({ length: MAX_PLAYERS - MIN_PLAYERS + 1 }, (_, i) => MIN_PLAYERS + i).map(n => (
+                  <option key={n} value={n}>{t('lobby.players', { count: n })}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-semibold text-slate-400">{t('setup.rules')}</label>
+              <select
+                value={rulePreset}
+                onChange={(e) => setRulePreset(e.target.value as RulePreset)}
+                title={t(`preset.${rulePreset as RulePreset}.description`)}
+                className="bg-slate-900 border border-slate-700 rounded p-1 text-sm text-white"
+              >
+                {Object.values(RulePreset).map(preset => (
+                  <option key={preset} value={preset}>{t(`preset.${preset}.label`)}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={handleCreate}
+              disabled={status === 'CONNECTING'}
+              className="w-full py-3 bg-emerald-600 hover:bg-emerald-500 text-white font-bold rounded-lg transition-colors disabled:opacity-50"
+            >
+              {t('lobby.create')}
+            </button>
+            <div className="flex gap-2">
+              <input
+                value={roomCode}
+                onChange={(e) => setRoomCode(e.target.value)}
+                placeholder={t('lobby.roomCode')}
+                maxLength={4}
+                className="flex-1 bg-slate-900 border border-slate-700 rounded p-2 text-white font-mono uppercase"
+              />
+              <button
+                onClick={handleJoin}
+                disabled={status === 'CONNECTING'}
+                className="px-6 bg-blue-600 hover:bg-blue-500 text-white font-bold rounded-lg transition-colors disabled:opacity-50"
+              >
+                {t('lobby.join')}
+              </button>
+            </div>
+            {status === 'CONNECTING' && <div className="text-center text-xs text-slate-400">{t('lobby.connecting')}</div>}
+            {status === 'CLOSED' && <div className="text-center text-xs text-red-400">{t('lobby.retrying')}</div>}
+            <button onClick={handleLeave} className="w-full py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm">{t('common.back')}</button>
+          </div>
+        )}
+
+        {error && <div className="text-center text-xs text-red-400 mt-3">{t(error)}</div>}
+      </div>
+    </div>
+  );
+};
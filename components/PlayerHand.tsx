@@ -1,48 +1,46 @@
 import React from 'react';
 import { Card, ResourceType } from '../types';
 import { CardItem } from './CardItem';
+import { getHandGroups } from '../services/keyboard';
+import { t } from '../services/i18n';
 
 interface PlayerHandProps {
   hand: Card[];
   selectedCards: string[];
   onToggleCard: (card: Card) => void;
   disabled: boolean;
+  dimmedCards?: string[]; // Hint mode: cards that cannot be part of any legal play
+  focusedCard?: string | null; // Keyboard navigation
+  onFocusCard?: (card: Card) => void; // Focus moved onto a card some other way, e.g. Tab
 }
 
 export const PlayerHand: React.FC<PlayerHandProps> = ({ 
-  hand, selectedCards, onToggleCard, disabled 
+  hand, selectedCards, onToggleCard, disabled, dimmedCards = [], focusedCard = null, onFocusCard
 }) => {
-  
-  // Group cards by type for better UX
-  const groupedCards: Record<string, Card[]> = {
-    [ResourceType.SOLDIER]: [],
-    [ResourceType.TOWER]: [],
-    [ResourceType.FARM]: [],
-    [ResourceType.ORE]: [],
-  };
-
-  hand.forEach(c => groupedCards[c.type].push(c));
+  // Grouped by resource, in the same order keyboard navigation walks them
+  const groups = getHandGroups(hand);
 
   return (
-    <div className={`p-4 bg-slate-800 rounded-t-xl transition-opacity ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
+    <div role="group" aria-label={t('a11y.hand')} className={`p-4 bg-slate-800 rounded-t-xl transition-opacity ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
       <div className="flex flex-wrap justify-center gap-6">
-        {Object.entries(groupedCards).map(([type, cards]) => {
-          if (cards.length === 0) return null;
-          return (
-            <div key={type} className="flex -space-x-4 hover:-space-x-3 transition-all duration-300">
-              {cards.map(card => (
-                <CardItem 
-                  key={card.id} 
-                  card={card} 
-                  selected={selectedCards.includes(card.id)}
-                  onClick={() => onToggleCard(card)}
-                />
-              ))}
-            </div>
-          );
-        })}
+        {groups.map(cards => (
+          <div key={cards[0].type} role="group" aria-label={t(`resource.${cards[0].type as ResourceType}`)} className="flex -space-x-4 hover:-space-x-3 transition-all duration-300">
+            {cards.map(card => (
+              <CardItem 
+                key={card.id} 
+                card={card} 
+                selected={selectedCards.includes(card.id)}
+                dimmed={dimmedCards.includes(card.id)}
+                focused={focusedCard === card.id}
+                disabled={disabled}
+                onClick={() => onToggleCard(card)}
+                onFocus={() => onFocusCard?.(card)}
+              />
+            ))}
+          </div>
+        ))}
         {hand.length === 0 && (
-          <div className="text-slate-500 italic">手牌已耗尽</div>
+          <div className="text-slate-500 italic">{t('hand.empty')}</div>
         )}
       </div>
     </div>
@@ -0,0 +1,107 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MatchRecording, buildReplayFrames, downloadRecording } from '../services/recording';
+import { CardItem } from './CardItem';
+import { describeRequirement } from '../services/gameLogic';
+import { t } from '../services/i18n';
+
+interface ReplayViewerProps {
+  recording: MatchRecording;
+  onExit: () => void;
+}
+
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ recording, onExit }) => {
+  const frames = useMemo(() => buildReplayFrames(recording), [recording]);
+  const [index, setIndex] = useState(0);
+
+  const last = frames.length - 1;
+  const frame = frames[index];
+  const actorId = 'playerId' in frame.event ? frame.event.playerId : null;
+  const lastPlay = frame.tableStack.length > 0 ? frame.tableStack[frame.tableStack.length - 1] : null;
+
+  // Arrow keys step through the match
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight') setIndex(i => Math.min(last, i + 1));
+      if (e.key === 'ArrowLeft') setIndex(i => Math.max(0, i - 1));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [last]);
+
+  return (
+    <div className="h-screen flex flex-col bg-slate-900 text-slate-100 overflow-hidden">
+      <header className="flex-none bg-slate-800 p-3 shadow-md flex justify-between items-center border-b border-slate-700">
+        <div className="flex items-center gap-4">
+          <span className="font-bold text-yellow-400">{t('replay.title')}</span>
+          <span className="bg-slate-700 px-3 py-1 rounded text-sm font-mono">{t('common.round', { round: frame.event.round })}</span>
+          <span className="text-xs text-slate-500 font-mono">{t('common.seed', { seed: recording.seed })}</span>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => downloadRecording(recording)} className="px-3 py-1 rounded bg-slate-700 hover:bg-slate-600 text-sm">{t('common.exportReplay')}</button>
+          <button onClick={onExit} className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-500 text-sm font-bold">{t('common.back')}</button>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-4 grid grid-cols-1 lg:grid-cols-2 gap-4">
+        {frame.players.map(p => (
+          <div key={p.id} className={`
+            p-3 rounded-lg border transition-all
+            ${p.id === actorId ? 'border-yellow-500 bg-yellow-500/10' : 'border-slate-700 bg-slate-800/50'}
+            ${p.passedThisRound ? 'opacity-50' : ''}
+          `}>
+            <div className="flex justify-between items-center mb-2 text-sm">
+              <span className="font-bold">
+                {p.name}
+                {p.id === frame.dealerId && <span className="ml-2 text-xs text-yellow-400">{t('common.dealer')}</span>}
+                {p.id === frame.winnerId && <span className="ml-2 text-xs text-emerald-400">{t('replay.winner')}</span>}
+              </span>
+              <span className="text-xs text-slate-400">
+                {t('common.handSize', { count: p.hand.length })} · <span className="text-yellow-500">🏅 {p.medals}</span>
+                {p.passedThisRound && <span className="ml-2 text-red-400 font-bold">{t('common.passed')}</span>}
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {p.hand.map(c => <CardItem key={c.id} card={c} small />)}
+              {p.hand.length === 0 && <span className="text-slate-500 italic text-xs">{t('hand.empty')}</span>}
+            </div>
+          </div>
+        ))}
+      </main>
+
+      <footer className="flex-none bg-slate-800 border-t border-slate-700 p-4 space-y-3">
+        <div className="flex items-center gap-6">
+          <div className="text-sm">
+            <span className="text-slate-400">{t('replay.requirement')} </span>
+            <span className="text-blue-200">{frame.requirement ? t(describeRequirement(frame.requirement)) : '—'}</span>
+          </div>
+          {lastPlay && (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-slate-400">{t('replay.table')}</span>
+              <div className="flex gap-1">
+                {lastPlay.cards.map(c => <CardItem key={c.id} card={c} small />)}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="text-center font-medium text-yellow-200">{t(frame.description)}</div>
+
+        <div className="flex items-center gap-3">
+          <button onClick={() => setIndex(0)} disabled={index === 0} className="px-3 py-1 rounded bg-slate-700 disabled:opacity-30">⏮</button>
+          <button onClick={() => setIndex(i => Math.max(0, i - 1))} disabled={index === 0} className="px-3 py-1 rounded bg-slate-700 disabled:opacity-30">◀</button>
+          <input
+            type="range"
+            min={0}
+            max={last}
+            value={index}
+            onChange={(e) => setIndex(parseInt(e.target.value))}
+            className="flex-1 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer"
+          />
+          <button onClick={() => setIndex(i => Math.min(last, i + 1))} disabled={index === last} className="px-3 py-1 rounded bg-slate-700 disabled:opacity-30">▶</button>
+          <button onClick={() => setIndex(last)} disabled={index === last} className="px-3 py-1 rounded bg-slate-700 disabled:opacity-30">⏭</button>
+          <span className="text-xs text-slate-400 font-mono w-20 text-right">{index + 1} / {frames.length}</span>
+        </div>
+      </footer>
+    </div>
+  );
+};
@@ -0,0 +1,331 @@
+import React, { useState } from 'react';
+import { BotDifficulty, BotPersonality, BotSettings, GameOptions, MatchFormat, RulePreset, TimeoutAction } from '../types';
+import {
+  DEFAULT_BOT_SETTINGS, DEFAULT_PLAYER_COUNT, MAX_PLAYERS, MIN_PLAYERS, MAX_PLAYER_NAME_LENGTH,
+  MATCH_FORMAT_OPTIONS, RULE_PRESETS, CLOCK_PRESETS, TIMEOUT_ACTIONS
+} from '../constants';
+import { parseSeed, randomSeed } from '../services/rng';
+import { SavedGame } from '../services/persistence';
+import { MatchRecording, parseRecording } from '../services/recording';
+import { getLocale, t } from '../services/i18n';
+import { describeClock } from '../services/rules';
+import { getProfile, getSeatProfileId, seatNamesPreference } from '../services/profiles';
+import { LanguageSwitch } from './LanguageSwitch';
+import { ContrastSwitch } from './ContrastSwitch';
+
+interface SetupScreenProps {
+  initialSeed?: string;
+  savedGame?: SavedGame | null;
+  onStart: (seed: number, options: GameOptions, format: MatchFormat | null) => void; // null: a single game
+  onResume?: () => void;
+  onImportReplay?: (recording: MatchRecording) => void;
+  onPlayOnline?: () => void;
+  onShowLeaderboard?: () => void;
+}
+
+const ALL_SEATS = Array.from({ length: MAX_PLAYERS }, (_, i) => i);
+const PLAYER_COUNTS = ALL_SEATS.map(i => i + 1).filter(n => n >= MIN_PLAYERS);
+
+export const SetupScreen: React.FC<SetupScreenProps> = ({
+  initialSeed = '', savedGame, onStart, onResume, onImportReplay, onPlayOnline, onShowLeaderboard
+}) => {
+  const [seedText, setSeedText] = useState(initialSeed);
+  const [importError, setImportError] = useState(false);
+  const [playerCount, setPlayerCount] = useState(DEFAULT_PLAYER_COUNT);
+  const [rulePreset, setRulePreset] = useState(RulePreset.CLASSIC);
+  const [formatIndex, setFormatIndex] = useState(0);
+  const [clockIndex, setClockIndex] = useState(0);
+  const [onTimeout, setOnTimeout] = useState<TimeoutAction>(CLOCK_PRESETS[0].clock.onTimeout);
+  const [practice, setPractice] = useState(false);
+  const [humanSeats, setHumanSeats] = useState<number[]>([0]);
+  const [names, setNames] = useState(seatNamesPreference.get);
+  const [bots, setBots] = useState<Record<number, BotSettings>>(() =>
+    Object.fromEntries(ALL_SEATS.map(seat => [seat, DEFAULT_BOT_SETTINGS]))
+  );
+
+  // Seats beyond the table size keep their settings in case the table grows again
+  const seats = ALL_SEATS.slice(0, playerCount);
+  const activeHumans = humanSeats.filter(seat => seat < playerCount);
+  // Takebacks would let a match result be replayed, so only single games offer them
+  const format = MATCH_FORMAT_OPTIONS[formatIndex].format;
+
+  const updateBot = (seat: number, patch: Partial<BotSettings>) => {
+    setBots(prev => ({ ...prev, [seat]: { ...prev[seat], ...patch } }));
+  };
+
+  const setHuman = (seat: number, isHuman: boolean) => {
+    setHumanSeats(prev => {
+      const others = prev.filter(s => s !== seat);
+      return isHuman ? [...others, seat].sort((a, b) => a - b) : others;
+    });
+  };
+
+  const handleStart = () => {
+    const seed = seedText.trim() ? parseSeed(seedText) : randomSeed();
+    const botSeats = seats.filter(seat => !activeHumans.includes(seat));
+    // A blank name keeps the seat label and plays for that seat's own profile
+    const named = activeHumans.filter(seat => names[seat]?.trim());
+    seatNamesPreference.set(names);
+    onStart(seed, {
+      playerCount,
+      humanSeats: activeHumans,
+      bots: Object.fromEntries(botSeats.map(seat => [seat, bots[seat]])),
+      names: Object.fromEntries(named.map(seat => [seat, names[seat].trim()])),
+      profiles: Object.fromEntries(activeHumans.map(seat =>
+        [seat, named.includes(seat) ? getProfile(names[seat]).id : getSeatProfileId(seat)]
+      )),
+      rules: { ...RULE_PRESETS[rulePreset].rules, clock: { ...CLOCK_PRESETS[clockIndex].clock, onTimeout } },
+      practice: practice && !format,
+    }, format);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file || !onImportReplay) return;
+    const recording = parseRecording(await file.text());
+    setImportError(!recording);
+    if (recording) onImportReplay(recording);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4">
+      <div className="bg-slate-800 p-8 rounded-2xl shadow-2xl max-w-2xl w-full border border-slate-700">
+        <div className="flex justify-between items-start">
+          <h1 className="text-3xl font-bold text-yellow-400 mb-1">{t('app.title')}</h1>
+          <div className="flex items-center gap-2">
+            <ContrastSwitch />
+            <LanguageSwitch />
+          </div>
+        </div>
+        <p className="text-slate-400 text-sm mb-6">{t('setup.subtitle')}</p>
+
+        {savedGame && onResume && (
+          <button
+            onClick={onResume}
+            className="w-full mb-6 p-3 rounded-lg bg-blue-600 hover:bg-blue-500 text-white font-bold flex justify-between items-center transition-colors"
+          >
+            <span>{t('setup.resume')}</span>
+            <span className="text-xs font-normal text-blue-100">
+              {t('common.round', { round: savedGame.game.roundNumber })} · {t('common.seed', { seed: savedGame.game.seed })} · {new Date(savedGame.savedAt).toLocaleString(getLocale())}
+            </span>
+          </button>
+        )}
+
+        <div className="flex items-center justify-between mb-3">
+          <span className="text-sm font-semibold text-slate-400">{t('setup.playerCount')}</span>
+          <div className="flex gap-1">
+            {PLAYER_COUNTS.map(n => (
+              <button
+                key={n}
+                onClick={() => setPlayerCount(n)}
+                className={`w-9 py-1 rounded text-sm border ${playerCount === n ? 'bg-yellow-500 border-yellow-300 text-slate-900 font-bold' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+              >
+                {n}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {seats.map(seat => {
+            const isHuman = humanSeats.includes(seat);
+            const settings: BotSettings = bots[seat];
+            return (
+              <div key={seat} className="bg-slate-900/60 p-3 rounded-lg border border-slate-700 space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <span className="font-bold">{t('setup.seat', { seat: seat + 1 })}</span>
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => setHuman(seat, true)}
+                        className={`px-3 py-1 rounded text-xs border ${isHuman ? 'bg-emerald-600 border-emerald-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                      >
+                        {t('setup.human')}
+                      </button>
+                      <button
+                        onClick={() => setHuman(seat, false)}
+                        className={`px-3 py-1 rounded text-xs border ${!isHuman ? 'bg-blue-600 border-blue-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                      >
+                        {t('setup.bot')}
+                      </button>
+                    </div>
+                  </div>
+                  {isHuman && (
+                    <input
+                      value={names[seat] ?? ''}
+                      onChange={(e) => setNames(prev => ({ ...prev, [seat]: e.target.value }))}
+                      placeholder={t('setup.playerName')}
+                      aria-label={t('setup.playerName')}
+                      maxLength={MAX_PLAYER_NAME_LENGTH}
+                      className="bg-slate-900 border border-slate-700 rounded p-1 text-sm text-white w-40"
+                    />
+                  )}
+                  {!isHuman && (
+                    <div className="flex gap-1">
+                      {Object.values(BotDifficulty).map(d => (
+                        <button
+                          key={d}
+                          onClick={() => updateBot(seat, { difficulty: d })}
+                          title={t(`difficulty.${d}.description`)}
+                          className={`px-3 py-1 rounded text-xs border ${settings.difficulty === d ? 'bg-blue-600 border-blue-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                        >
+                          {t(`difficulty.${d}.label`)}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                {!isHuman && (
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={settings.personality}
+                      onChange={(e) => updateBot(seat, { personality: e.target.value as BotPersonality })}
+                      className="bg-slate-900 border border-slate-700 rounded p-1 text-sm text-white"
+                    >
+                      {Object.values(BotPersonality).map(p => (
+                        <option key={p} value={p}>{t(`personality.${p}.label`)}</option>
+                      ))}
+                    </select>
+                    <span className="text-xs text-slate-500">
+                      {t('setup.botSummary', {
+                        difficulty: t(`difficulty.${settings.difficulty}.description`),
+                        personality: t(`personality.${settings.personality}.description`),
+                      })}
+                    </span>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {activeHumans.length > 1 && (
+          <p className="text-xs text-slate-500 mt-2">{t('setup.hotSeat')}</p>
+        )}
+
+        <div className="mt-6">
+          <label className="block text-sm font-semibold text-slate-400 mb-1">{t('setup.rules')}</label>
+          <div className="flex items-center gap-2">
+            <select
+              value={rulePreset}
+              onChange={(e) => setRulePreset(e.target.value as RulePreset)}
+              className="bg-slate-900 border border-slate-700 rounded p-2 text-sm text-white"
+            >
+              {Object.values(RulePreset).map(preset => (
+                <option key={preset} value={preset}>{t(`preset.${preset}.label`)}</option>
+              ))}
+            </select>
+            <span className="text-xs text-slate-500">{t(`preset.${rulePreset as RulePreset}.description`)}</span>
+          </div>
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm font-semibold text-slate-400 mb-1">{t('setup.clock')}</label>
+            <div className="flex flex-wrap gap-1">
+              {CLOCK_PRESETS.map((preset, i) => (
+                <button
+                  key={preset.id}
+                  onClick={() => setClockIndex(i)}
+                  title={t(describeClock(preset.clock))}
+                  className={`px-3 py-1 rounded text-xs border ${clockIndex === i ? 'bg-yellow-500 border-yellow-300 text-slate-900 font-bold' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                >
+                  {t(`clock.${preset.id}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-slate-400 mb-1">{t('setup.timeout')}</label>
+            <select
+              value={onTimeout}
+              onChange={(e) => setOnTimeout(e.target.value as TimeoutAction)}
+              className="bg-slate-900 border border-slate-700 rounded p-1 text-xs text-white"
+            >
+              {TIMEOUT_ACTIONS.map(action => (
+                <option key={action} value={action}>{t(`rules.timeout.${action}`)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <p className="text-xs text-slate-500 mt-1">{t(describeClock(CLOCK_PRESETS[clockIndex].clock))}</p>
+
+        <div className="mt-4">
+          <label className="block text-sm font-semibold text-slate-400 mb-1">{t('setup.format')}</label>
+          <div className="flex flex-wrap gap-1">
+            {MATCH_FORMAT_OPTIONS.map((option, i) => (
+              <button
+                key={option.id}
+                onClick={() => setFormatIndex(i)}
+                title={t(`matchOption.${option.id}.description`)}
+                className={`px-3 py-1 rounded text-xs border ${formatIndex === i ? 'bg-yellow-500 border-yellow-300 text-slate-900 font-bold' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+              >
+                {t(`matchOption.${option.id}.label`)}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 mt-1">{t(`matchOption.${MATCH_FORMAT_OPTIONS[formatIndex].id}.description`)}</p>
+        </div>
+
+        <div className="mt-4">
+          <label className={`flex items-center gap-2 text-sm font-semibold ${format ? 'text-slate-600' : 'text-slate-400 cursor-pointer'}`}>
+            <input
+              type="checkbox"
+              checked={practice && !format}
+              disabled={!!format}
+              onChange={(e) => setPractice(e.target.checked)}
+            />
+            {t('setup.practice')}
+          </label>
+          <p className="text-xs text-slate-500 mt-1">{t(format ? 'setup.practiceSingleOnly' : 'setup.practiceHint')}</p>
+        </div>
+
+        <div className="mt-4">
+          <label className="block text-sm font-semibold text-slate-400 mb-1">{t('setup.seed')}</label>
+          <input
+            value={seedText}
+            onChange={(e) => setSeedText(e.target.value)}
+            placeholder={t('setup.seedPlaceholder')}
+            className="w-full bg-slate-900 border border-slate-700 rounded p-2 text-white font-mono"
+          />
+        </div>
+
+        <button
+          onClick={handleStart}
+          className="w-full py-3 bg-emerald-600 hover:bg-emerald-500 text-white font-bold rounded-lg mt-6 transition-colors"
+        >
+          {t('setup.start')}
+        </button>
+
+        {onPlayOnline && (
+          <button
+            onClick={onPlayOnline}
+            className="w-full py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg mt-3 transition-colors"
+          >
+            {t('setup.online')}
+          </button>
+        )}
+
+        {onShowLeaderboard && (
+          <button
+            onClick={onShowLeaderboard}
+            className="w-full py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg mt-3 transition-colors"
+          >
+            {t('leaderboard.title')}
+          </button>
+        )}
+
+        {onImportReplay && (
+          <label className="block text-center text-sm text-slate-400 hover:text-white mt-4 cursor-pointer">
+            {t('setup.importReplay')}
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => handleImport(e.target.files?.[0])}
+            />
+          </label>
+        )}
+        {importError && <div className="text-center text-xs text-red-400 mt-1">{t('setup.importError')}</div>}
+      </div>
+    </div>
+  );
+};
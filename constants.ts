@@ -1,19 +1,194 @@
-import { ResourceType } from './types';
+import {
+  ResourceType, BotDifficulty, BotPersonality, BotStrategy, ClockRules, DealerStyle, KeyAction, KeyBindings, MashMinigame, MatchFormat,
+  MovePreference, RulePreset, RuleSet, ScoringRules, TimeoutAction
+} from './types';
 
-export const PLAYERS_COUNT = 4;
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 6;
+export const DEFAULT_PLAYER_COUNT = 4;
+export const MAX_PLAYER_NAME_LENGTH = 16; // Local player profiles and online seats
+
+// Hand size relative to the 4-player deal: duels get deeper hands so rounds still matter,
+// big tables thinner ones so a game does not drag on
+export const DEAL_SCALE: Record<number, number> = { 2: 1.5, 3: 1.2, 4: 1, 5: 0.85, 6: 0.75 };
+
+// Names and high-contrast letter badges are in the locale files under `resource.<type>` and
+// `resource.badge.<type>`. The pattern is drawn over the card in high-contrast mode.
+const stripes = (angle: number) => `repeating-linear-gradient(${angle}deg, rgba(255,255,255,0.35) 0 2px, transparent 2px 8px)`;
 
 export const RESOURCE_CONFIG = {
-  [ResourceType.SOLDIER]: { min: 3, max: 8, color: 'bg-red-500', text: 'text-red-100', icon: '⚔️', label: '士兵' },
-  [ResourceType.TOWER]: { min: 2, max: 6, color: 'bg-slate-500', text: 'text-slate-100', icon: '🏰', label: '塔防' },
-  [ResourceType.FARM]: { min: 3, max: 8, color: 'bg-emerald-600', text: 'text-emerald-100', icon: '🌾', label: '农场' },
-  [ResourceType.ORE]: { min: 3, max: 8, color: 'bg-indigo-500', text: 'text-indigo-100', icon: '💎', label: '矿石' },
+  [ResourceType.SOLDIER]: { min: 3, max: 8, color: 'bg-red-500', text: 'text-red-100', icon: '⚔️', pattern: stripes(45) },
+  [ResourceType.TOWER]: { min: 2, max: 6, color: 'bg-slate-500', text: 'text-slate-100', icon: '🏰', pattern: stripes(0) },
+  [ResourceType.FARM]: { min: 3, max: 8, color: 'bg-emerald-600', text: 'text-emerald-100', icon: '🌾', pattern: stripes(90) },
+  [ResourceType.ORE]: { min: 3, max: 8, color: 'bg-indigo-500', text: 'text-indigo-100', icon: '💎', pattern: `${stripes(45)}, ${stripes(-45)}` },
+};
+
+// Mash odds slide with the card's level: a low card is easy to improve, a high one mostly risks dropping.
+// The top level cannot go up and the bottom level cannot go down.
+export const MASH_ODDS = {
+  BETTER_LOW: 0.30, // Upgrade chance at the lowest level
+  BETTER_HIGH: 0.05, // ...and at the highest
+  WORSE_LOW: 0.03,
+  WORSE_HIGH: 0.15,
 };
+export const MASH_LIMIT_PER_ROUND = 3; // Attempts per player per round, bots included
 
-export const MASH_PROBABILITIES = {
-  SAME: 0.80,
-  WORSE: 0.05,
-  BETTER: 0.15
+// Names and instructions are in the locale files under `minigame.<id>`
+export const MASH_MINIGAME_CONFIG: Record<MashMinigame, { cooldownMs: number }> = {
+  [MashMinigame.ALTERNATE]: { cooldownMs: 3000 },
+  [MashMinigame.RHYTHM]: { cooldownMs: 2500 },
+  [MashMinigame.HOLD]: { cooldownMs: 2000 },
+};
+
+// The keys the mash minigames listen for; table shortcuts cannot be bound to them
+export const MASH_KEYS = ['a', 'd', ' '];
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  [KeyAction.FOCUS_PREV]: 'arrowleft',
+  [KeyAction.FOCUS_NEXT]: 'arrowright',
+  [KeyAction.GROUP_PREV]: 'arrowup',
+  [KeyAction.GROUP_NEXT]: 'arrowdown',
+  [KeyAction.TOGGLE_CARD]: 'enter',
+  [KeyAction.CLEAR_SELECTION]: 'escape',
+  [KeyAction.PLAY]: 'f',
+  [KeyAction.PASS]: 'x',
+  [KeyAction.HINT]: 'h',
+  [KeyAction.CHALLENGE]: 'c',
+  [KeyAction.UNDO]: 'z',
+  [KeyAction.TOGGLE_LOG]: 'l',
+  [KeyAction.PAUSE]: 'p',
+  [KeyAction.SHOW_KEYS]: '?',
 };
 
 export const AI_DELAY_MS = 1200;
-export const MASH_COOLDOWN_MS = 3000;
\ No newline at end of file
+export const MAX_BOT_GAME_ACTIONS = 10000; // A game played out by bots alone is cut off after this many turns
+
+// --- Turn Clock ---
+
+export const CLASSIC_CLOCK: ClockRules = { dealerSeconds: 15, playSeconds: 15, bankSeconds: 0, onTimeout: 'AUTO_PLAY' };
+
+// Offered on the setup screen; text is under `clock.<id>`
+export const CLOCK_PRESETS = [
+  { id: 'CLASSIC', clock: CLASSIC_CLOCK },
+  { id: 'RELAXED', clock: { ...CLASSIC_CLOCK, dealerSeconds: 30, playSeconds: 20, bankSeconds: 60 } },
+  { id: 'BLITZ', clock: { ...CLASSIC_CLOCK, dealerSeconds: 10, playSeconds: 5, bankSeconds: 30 } },
+] as const satisfies readonly { id: string; clock: ClockRules }[];
+
+export const TIMEOUT_ACTIONS: TimeoutAction[] = ['AUTO_PLAY', 'AUTO_PASS', 'FORFEIT_ROUND'];
+export const CLOCK_TICK_MS = 250;
+export const COUNTDOWN_ANNOUNCEMENTS = [10, 5, 3, 2, 1]; // Seconds left at which screen readers hear the clock
+export const CHEAT_CAUTION = 0.5; // Bots with a medal to lose cheat this much as often
+// The server cannot see which minigame a client plays, so it only enforces the shortest cooldown
+export const MIN_MASH_COOLDOWN_MS = Math.min(...Object.values(MASH_MINIGAME_CONFIG).map(m => m.cooldownMs));
+export const BOMB_SIZE = 4; // Fewest same-level cards that make a bomb
+
+// Names and descriptions of difficulties and personalities are in the locale files
+export const BOT_DIFFICULTY_CONFIG: Record<BotDifficulty, {
+  strategy: BotStrategy;
+  passChance: number;
+  dealerStyle: DealerStyle;
+  thinkMs: number;
+}> = {
+  [BotDifficulty.EASY]: { strategy: 'GREEDY', passChance: 0.3, dealerStyle: 'RANDOM', thinkMs: 1600 },
+  [BotDifficulty.NORMAL]: { strategy: 'GREEDY', passChance: 0, dealerStyle: 'ABUNDANT', thinkMs: AI_DELAY_MS },
+  [BotDifficulty.HARD]: { strategy: 'SEARCH', passChance: 0, dealerStyle: 'ABUNDANT', thinkMs: 800 },
+};
+
+export const BOT_PERSONALITY_CONFIG: Record<BotPersonality, {
+  movePreference: MovePreference;
+  holdLevel: number | null;
+  cheatChance: number;
+  challengeChance: number;
+  dealerStyle?: DealerStyle; // Overrides the difficulty's style
+}> = {
+  [BotPersonality.BALANCED]: { movePreference: 'CHEAPEST', holdLevel: null, cheatChance: 0.40, challengeChance: 0.35 },
+  [BotPersonality.AGGRESSIVE]: { movePreference: 'STRONGEST', holdLevel: null, cheatChance: 0.40, challengeChance: 0.6, dealerStyle: 'LONG' },
+  [BotPersonality.HOARDER]: { movePreference: 'CHEAPEST', holdLevel: 6, cheatChance: 0.20, challengeChance: 0.2, dealerStyle: 'SHORT' },
+  [BotPersonality.CHEATER]: { movePreference: 'CHEAPEST', holdLevel: null, cheatChance: 0.80, challengeChance: 0.1 },
+};
+
+export const DEFAULT_BOT_SETTINGS = {
+  difficulty: BotDifficulty.NORMAL,
+  personality: BotPersonality.BALANCED,
+};
+
+export const DEFAULT_SEARCH_BUDGET = {
+  iterations: 160,
+  timeLimitMs: 0,
+  rolloutRounds: 3,
+};
+
+export const CLASSIC_SCORING: ScoringRules = {
+  medalPoints: 100,
+  goOutBonus: 150,
+  handValuePenalty: 2,
+  tieBreakers: ['MEDALS', 'WENT_OUT', 'LOWEST_HAND_VALUE', 'LATEST_MEDAL'],
+};
+
+const CLASSIC_RULES: RuleSet = {
+  preset: RulePreset.CLASSIC,
+  beat: 'MATCH_OR_BEAT',
+  tieWinner: 'LATER',
+  opening: 'INFER',
+  minRequirementCount: 1,
+  maxRequirementCount: null,
+  passLocksOut: true,
+  clock: CLASSIC_CLOCK,
+  gameEnd: { medalTarget: null, roundLimit: null },
+  scoring: CLASSIC_SCORING,
+  minLevel: 1,
+  maxLevel: 7,
+};
+
+// Preset names and summaries are in the locale files under `preset.<id>`
+export const RULE_PRESETS: Record<RulePreset, { rules: RuleSet }> = {
+  [RulePreset.CLASSIC]: { rules: CLASSIC_RULES },
+  [RulePreset.STRICT]: {
+    rules: { ...CLASSIC_RULES, preset: RulePreset.STRICT, beat: 'STRICTLY_BEAT', maxRequirementCount: 5 },
+  },
+  [RulePreset.DEFENDER]: {
+    rules: { ...CLASSIC_RULES, preset: RulePreset.DEFENDER, tieWinner: 'EARLIER' },
+  },
+  [RulePreset.OPEN_TABLE]: {
+    rules: { ...CLASSIC_RULES, preset: RulePreset.OPEN_TABLE, passLocksOut: false },
+  },
+  [RulePreset.SPRINT]: {
+    rules: {
+      ...CLASSIC_RULES,
+      preset: RulePreset.SPRINT,
+      maxRequirementCount: 3,
+      gameEnd: { medalTarget: 3, roundLimit: null },
+      // The race is for medals; emptying a hand barely matters
+      scoring: { ...CLASSIC_SCORING, goOutBonus: 50, handValuePenalty: 1 },
+    },
+  },
+  [RulePreset.WIDE]: {
+    rules: {
+      ...CLASSIC_RULES,
+      preset: RulePreset.WIDE,
+      maxLevel: 9,
+      gameEnd: { medalTarget: null, roundLimit: 10 },
+      // Hands are worth more here, so each point left costs less
+      scoring: { ...CLASSIC_SCORING, handValuePenalty: 1, tieBreakers: ['MEDALS', 'LOWEST_HAND_VALUE', 'WENT_OUT', 'LATEST_MEDAL'] },
+    },
+  },
+  [RulePreset.DECLARED]: {
+    rules: { ...CLASSIC_RULES, preset: RulePreset.DECLARED, opening: 'DECLARE' },
+  },
+};
+
+export const DEFAULT_RULES = CLASSIC_RULES;
+
+// --- Matches & Ratings ---
+
+// Offered on the setup screen; null is a single game. Text is under `matchOption.<id>`.
+export const MATCH_FORMAT_OPTIONS = [
+  { id: 'SINGLE', format: null },
+  { id: 'BEST_OF_3', format: { kind: 'BEST_OF', games: 3 } },
+  { id: 'BEST_OF_5', format: { kind: 'BEST_OF', games: 5 } },
+  { id: 'MEDALS_10', format: { kind: 'MEDAL_TARGET', medals: 10 } },
+  { id: 'ROUND_ROBIN', format: { kind: 'ROUND_ROBIN' } },
+] as const satisfies readonly { id: string; format: MatchFormat | null }[];
+
+export const ELO_INITIAL = 1200;
+export const ELO_K = 32; // Split across the opponents of a multi-player game
@@ -0,0 +1,456 @@
+import type zhCN from './zh-CN';
+
+const en: Record<keyof typeof zhCN, string> = {
+  'app.title': 'Endgame Resource Battle',
+
+  // --- Shared ---
+  'common.back': 'Back',
+  'common.backToMenu': 'Back to menu',
+  'common.dealer': 'Leader',
+  'common.exportReplay': 'Export replay',
+  'common.handSize': 'Cards: {count}',
+  'common.leaveRoom': 'Leave room',
+  'common.passed': 'Passed',
+  'common.round': 'Round {round}',
+  'common.seed': 'Seed #{seed}',
+
+  'seat.bot': 'Bot {seat}',
+  'seat.human': 'Player {seat}',
+  'seat.you': 'Player {seat} (you)',
+
+  'resource.Soldier': 'Soldier',
+  'resource.Tower': 'Tower',
+  'resource.Farm': 'Farm',
+  'resource.Ore': 'Ore',
+  'resource.badge.Soldier': 'S',
+  'resource.badge.Tower': 'T',
+  'resource.badge.Farm': 'F',
+  'resource.badge.Ore': 'O',
+
+  // --- Requirements ---
+  'requirementType.SINGLE_FIXED.label': 'One resource (fixed count)',
+  'requirementType.SINGLE_FIXED.short': 'One resource',
+  'requirementType.SINGLE_ASC.label': 'One resource (ascending)',
+  'requirementType.SINGLE_ASC.short': 'One resource',
+  'requirementType.MIXED_ASC.label': 'Mixed resources (ascending)',
+  'requirementType.MIXED_ASC.short': 'Mixed',
+  'requirementType.SAME_LEVEL.label': 'Same level (any resource)',
+  'requirementType.SAME_LEVEL.short': 'Same level',
+  'requirementType.RUN.label': 'Run (each level +1)',
+  'requirementType.RUN.short': 'Run',
+  'requirementType.PAIRS.label': 'Pairs (several pairs)',
+  'requirementType.PAIRS.short': 'Pairs',
+  'requirementType.BOMB.label': 'Bomb (four or more of a level)',
+  'requirementType.BOMB.short': 'Bomb',
+
+  'requirement.SINGLE_FIXED': 'Fixed: {count} × {resource}',
+  'requirement.SINGLE_ASC': 'Ascending: {count} × {resource}',
+  'requirement.MIXED_ASC': 'Mixed ascending: {count} cards',
+  'requirement.SAME_LEVEL': 'Same level: {count} cards',
+  'requirement.RUN': 'Run: {count} consecutive levels',
+  'requirement.PAIRS': 'Pairs: {pairs} pairs',
+  'requirement.BOMB': 'Bomb: at least {count} of a level',
+
+  'requirementSource.timeout': 'timed out',
+  'requirementSource.bot': 'bot choice',
+
+  'invalid.noRequirement': 'No requirement has been set for this round.',
+  'invalid.bombOnBomb': 'The last play was a bomb; only a bigger bomb can beat it.',
+  'invalid.biggerBomb': 'A bomb must have more cards, or as many cards at a higher level.',
+  'invalid.bombOnly': 'Only bombs can be played this round (at least {size} of a level).',
+  'invalid.count': 'You must play {count} cards.',
+  'invalid.resource': 'Every card must be {resource}.',
+  'invalid.ascending': 'Levels must strictly ascend (e.g. 1, 2, 3).',
+  'invalid.sameLevel': 'Every card must have the same level.',
+  'invalid.run': 'Levels must be consecutive (e.g. 3, 4, 5).',
+  'invalid.pairs': 'Must be pairs of different levels (e.g. 2, 2, 5, 5).',
+  'invalid.sum': 'Total ({sum}) must be >= the last play ({last}).',
+  'invalid.sumStrict': 'Total ({sum}) must be > the last play ({last}).',
+
+  // --- Game log ---
+  'log.title': 'Battle log',
+  'log.legacy': '{text}',
+  'log.dealt': 'Game set up, cards dealt.',
+  'log.firstDealerRotated': '{name} leads the first round by rotation.',
+  'log.firstDealerRichest': '{name} has the most resources and leads the first round.',
+  'log.requirement': '{name} sets the requirement: {requirement}',
+  'log.requirementBy': '{name} sets the requirement ({source}): {requirement}',
+  'log.played': '{name} played {count} cards.',
+  'log.passed': '{name} passes.',
+  'log.notInHand': 'Invalid play: those cards are not in your hand.',
+  'log.cannotInfer': 'These cards do not form a valid requirement (mixed resources need the same level, a run, pairs or ascending levels).',
+  'log.countRange': 'This game requires {range} per play.',
+  'log.invalidPlay': 'Invalid play: {reason}',
+  'log.leaderMustPlay': 'The leader must play first.',
+  'log.declareFirst': 'Under these rules the leader announces the requirement before playing.',
+  'log.cannotDeclare': 'Your hand cannot meet that requirement; pick another one.',
+  'log.mashLimit': 'No mashes left this round ({limit} per round).',
+  'log.mashNoticed': '{name} seems to be hiding something up their sleeve... (cheat succeeded)',
+  'log.mashUp': '{name} mashed a card up a level!',
+  'log.mashDown': '{name} botched a mash, the card dropped a level...',
+  'log.mashSame': '{name} mashed with no effect...',
+  'log.nothingToChallenge': 'There is no play to challenge.',
+  'log.challengeSelf': 'You cannot challenge your own play.',
+  'log.challengeFailed': '{challenger} wrongly accused {target} and sits out the round.',
+  'log.challengeFailedMedal': '{challenger} wrongly accused {target}, loses 1 medal and sits out the round.',
+  'log.challengeCaught': '{challenger} caught {target} cheating! The play is taken back.',
+  'log.challengeCaughtMedal': '{challenger} caught {target} cheating! The play is taken back and {target} loses 1 medal.',
+  'log.timeout': '⏰ Time is up! Playing automatically...',
+  'log.forfeit': '{name} ran out of time and concedes the round',
+  'log.roundEnd': 'Round {round} over! Winner: {name}',
+  'log.unknownPlayer': 'unknown',
+  'log.gameEnd': 'Game over! Winner: {name} ({score} points)',
+
+  // --- Rules ---
+  'preset.CLASSIC.label': 'Classic',
+  'preset.CLASSIC.description': 'Ties beat the last play; the game ends when a hand is emptied',
+  'preset.STRICT.label': 'Strict',
+  'preset.STRICT.description': 'Every play must strictly beat the last; at most 5 cards',
+  'preset.DEFENDER.label': 'Defender',
+  'preset.DEFENDER.description': 'Ties do not take the lead; whoever got there first keeps it',
+  'preset.OPEN_TABLE.label': 'Open table',
+  'preset.OPEN_TABLE.description': 'Passing does not lock you out of the round',
+  'preset.SPRINT.label': 'Sprint',
+  'preset.SPRINT.description': 'First to 3 medals wins; at most 3 cards',
+  'preset.WIDE.label': 'Wide',
+  'preset.WIDE.description': 'Levels 1-9; most medals after 10 rounds wins',
+  'preset.DECLARED.label': 'Declared',
+  'preset.DECLARED.description': 'The leader announces the requirement, then makes the opening play',
+
+  'rules.label.preset': 'Rules',
+  'rules.label.levels': 'Levels',
+  'rules.label.opening': 'Requirement',
+  'rules.label.count': 'Cards per play',
+  'rules.label.beat': 'Beating',
+  'rules.label.tie': 'Ties',
+  'rules.label.bomb': 'Bomb',
+  'rules.label.pass': 'Passing',
+  'rules.label.scoring': 'Scoring',
+  'rules.label.tieBreak': 'Tie-break',
+  'rules.label.end': 'Ends',
+  'rules.label.clock': 'Clock',
+  'rules.label.timeout': 'Timeout',
+  'rules.levels': '{min}-{max}',
+  'rules.countAtLeast': 'at least {min}',
+  'rules.countBetween': '{min}-{max} cards',
+  'rules.opening.INFER': "read from the leader's opening play",
+  'rules.opening.DECLARE': 'announced by the leader before the opening play',
+  'rules.beat.STRICTLY_BEAT': 'total must be > the last play',
+  'rules.beat.MATCH_OR_BEAT': 'total must be ≥ the last play',
+  'rules.tie.LATER': 'the later play leads',
+  'rules.tie.EARLIER': 'the earlier play leads',
+  'rules.bomb': '{size} or more of a level, beats anything',
+  'rules.pass.locked': 'out for the rest of the round',
+  'rules.pass.open': 'may play again on your next turn',
+  'rules.clock': '{dealer}s to open, {play}s per play',
+  'rules.clockBank': '{turn}, plus a {bank}s time bank',
+  'rules.timeout.AUTO_PLAY': 'the cheapest legal play is made',
+  'rules.timeout.AUTO_PASS': 'the player passes',
+  'rules.timeout.FORFEIT_ROUND': 'the round goes to the current leader',
+  'rules.scoring': '{medal} per medal, +{bonus} for going out, -{penalty} per level left',
+  'rules.end.out': 'a hand is emptied',
+  'rules.end.medals': 'someone has {medals} medals',
+  'rules.end.rounds': 'after {rounds} rounds',
+  'rules.end.separator': ' or ',
+
+  'tieBreaker.MEDALS': 'more medals',
+  'tieBreaker.WENT_OUT': 'went out',
+  'tieBreaker.LOWEST_HAND_VALUE': 'fewer levels left',
+  'tieBreaker.LATEST_MEDAL': 'won a round more recently',
+
+  // --- Bots ---
+  'difficulty.EASY.label': 'Easy',
+  'difficulty.EASY.description': 'Often passes on purpose and sets random requirements',
+  'difficulty.NORMAL.label': 'Normal',
+  'difficulty.NORMAL.description': 'Always plays the cheapest legal combination',
+  'difficulty.HARD.label': 'Hard',
+  'difficulty.HARD.description': 'Looks a few rounds ahead before playing or setting requirements',
+  'personality.BALANCED.label': 'Balanced',
+  'personality.BALANCED.description': 'Standard play',
+  'personality.AGGRESSIVE.label': 'Aggressive',
+  'personality.AGGRESSIVE.description': 'Plays the strongest combination and likes long ascending requirements',
+  'personality.HOARDER.label': 'Hoarder',
+  'personality.HOARDER.description': 'Will not give up cards of level 6 or higher to beat a play',
+  'personality.CHEATER.label': 'Cheater',
+  'personality.CHEATER.description': 'Mashes almost every turn',
+  'bot.profile': '{difficulty} · {personality}',
+
+  // --- Mashing ---
+  'minigame.ALTERNATE.label': 'Alternate',
+  'minigame.ALTERNATE.description': 'Alternate A / D as fast as you can to fill the bar',
+  'minigame.RHYTHM.label': 'Rhythm',
+  'minigame.RHYTHM.description': 'Press Space while the needle is in the green zone, 3 hits in a row',
+  'minigame.HOLD.label': 'Charge',
+  'minigame.HOLD.description': 'Hold Space to charge and release inside the green zone',
+  'mash.title': 'Mash (cheat)',
+  'mash.exhausted': 'No mashes left this round',
+  'mash.better': 'Up {chance}',
+  'mash.same': 'Same {chance}',
+  'mash.worse': 'Down {chance}',
+  'mash.left': '{left}/{limit} left this round',
+
+  // --- Setup ---
+  'setup.subtitle': 'Set up every seat before the game: human players share this device in turn, bots have a difficulty and a personality.',
+  'setup.resume': 'Resume game',
+  'setup.playerCount': 'Players',
+  'setup.seat': 'Seat {seat}',
+  'setup.human': 'Human',
+  'setup.bot': 'Bot',
+  'setup.playerName': 'Player name (optional)',
+  'setup.botSummary': '{difficulty}; {personality}',
+  'setup.hotSeat': 'Hot seat: a handoff screen is shown before each human turn so nobody sees the previous hand.',
+  'setup.rules': 'Rules',
+  'setup.format': 'Format',
+  'setup.clock': 'Clock',
+  'setup.timeout': 'On timeout',
+  'setup.seed': 'Seed (blank for random)',
+  'setup.seedPlaceholder': 'e.g. 12345',
+  'setup.start': 'Start game',
+  'setup.online': 'Play online',
+  'setup.importReplay': 'Import replay (JSON)',
+  'setup.importError': 'Could not read that replay file.',
+  'setup.practice': 'Practice mode (takebacks)',
+  'setup.practiceHint': 'Human players can take back their last move along with every bot move since. Games with a takeback do not count toward the leaderboard.',
+  'setup.practiceSingleOnly': 'Practice mode is for single games only.',
+
+  // --- Matches ---
+  'matchOption.SINGLE.label': 'Single game',
+  'matchOption.SINGLE.description': 'One game decides it',
+  'matchOption.BEST_OF_3.label': 'Best of 3',
+  'matchOption.BEST_OF_3.description': 'First to win two games; seats and the first leader rotate each game',
+  'matchOption.BEST_OF_5.label': 'Best of 5',
+  'matchOption.BEST_OF_5.description': 'First to win three games; seats and the first leader rotate each game',
+  'matchOption.MEDALS_10.label': 'Race to 10 medals',
+  'matchOption.MEDALS_10.description': 'Medals carry over between games; first to 10 wins',
+  'matchOption.ROUND_ROBIN.label': 'Round robin',
+  'matchOption.ROUND_ROBIN.description': 'Every seat plays every other in a duel; bot-only games are played out instantly',
+  'matchFormat.bestOf': 'Best of {games} (first to {wins})',
+  'matchFormat.medalTarget': 'First to {medals} medals',
+  'matchFormat.roundRobin': 'Round robin',
+  'match.over': 'Match over',
+  'match.unfinished': '{games} game(s) hit the move cap unfinished and count for nobody',
+  'match.botDuel': '{first} vs {second}: bots playing…',
+  'match.played': '{games} games played',
+  'match.game': 'Game {game}',
+  'match.entrant': 'Entrant',
+  'match.games': 'Games',
+  'match.wins': 'Wins',
+
+  // --- Ratings ---
+  'rating.botName': 'Bot ({profile})',
+  'leaderboard.title': 'Leaderboard',
+  'leaderboard.subtitle': 'Elo ratings are updated after every game; each bot difficulty and personality is rated separately, and people by the name entered at setup.',
+  'leaderboard.empty': 'No finished games yet.',
+  'leaderboard.rating': 'Rating',
+  'leaderboard.games': 'Games',
+  'leaderboard.winRate': 'Win rate',
+  'leaderboard.reset': 'Reset ratings',
+
+  // --- Game table ---
+  'table.rank': 'Rank',
+  'table.player': 'Player',
+  'table.medals': 'Medals',
+  'table.requirement': 'This round',
+  'table.awaitingRequirement': 'Waiting for a requirement',
+  'table.seedHint': 'Add ?seed=<seed> to the address to replay this deal',
+  'table.human': 'Human',
+  'table.bot': 'Bot',
+  'table.mashedThisRound': 'Mashed this round',
+  'table.playToDeclare': 'Play cards to set the requirement',
+  'table.waitingForDealer': 'Waiting for the leader to set the requirement...',
+  'table.declare': 'Announce requirement',
+  'table.playOpening': 'Make the opening play for this requirement',
+  'table.waitingForOpening': 'Waiting for the opening play...',
+  'table.lastPlay': 'Last play:',
+  'table.currentTurn': 'Current turn',
+  'table.cooldown': 'Cooling down...',
+  'table.yourMedals': 'Your medals:',
+  'table.playerMedals': "{name}'s medals:",
+  'table.waitingFor': 'Waiting for {name}...',
+  'table.challenge': 'Challenge {name}',
+  'table.challengeHint': 'If the last play holds a mashed card it is taken back and its player loses a medal; a wrong challenge costs you a medal and the round',
+  'table.pass': 'Pass',
+  'table.play': 'Play',
+  'table.declareAndPlay': 'Set requirement and play',
+  'table.currentRequirement': 'Current requirement',
+  'table.type': 'Type:',
+  'table.resource': 'Resource:',
+  'table.count': 'Count:',
+  'table.rulesTitle': 'Rules',
+  'help.play.label': 'Playing:',
+  'help.play': 'Plays must match the round type and card count.',
+  'help.mash.label': 'Mashing (cheating):',
+  'help.mash': 'Select 1 card and clear the mash minigame.',
+  'help.risk.label': 'Risk:',
+  'help.risk': 'Success raises the level, failure lowers it. Bots cheat too.',
+  'hand.empty': 'No cards left',
+  'hint.modeOn': 'Hints: on',
+  'hint.modeOff': 'Hints: off',
+  'hint.modeHint': 'Dims cards you cannot play and checks your selection before you submit it',
+  'hint.button': 'Hint',
+  'hint.next': 'Hint ({index}/{total})',
+  'hint.none': 'You have no legal play',
+  'hint.valid': 'Ready to play',
+  'hint.opens': 'Sets the requirement: {requirement}',
+  'hint.deadEnd': 'These cards cannot make a legal play: {reason}',
+  'undo.button': 'Undo',
+  'undo.hint': 'Take back your last move and every bot move since',
+  'undo.practice': 'Practice',
+  'undo.unrated': 'Takeback used · unrated',
+  'handoff.passTo': 'Pass the device to',
+  'handoff.ready': "I'm ready, show my hand",
+
+  'dealer.title': 'You lead this round!',
+  'dealer.prompt': 'Set the requirement for this round.',
+  'dealer.type': 'Play type',
+  'dealer.resource': 'Resource',
+  'dealer.count': 'Count ({count})',
+  'dealer.submit': 'Announce',
+  'dealer.unavailable': 'Your hand cannot meet this',
+
+  // --- Keyboard ---
+  'keys.title': 'Keys',
+  'keys.customize': 'Customize',
+  'keys.sheetTitle': 'Keyboard controls',
+  'keys.sheetHint': 'Press {key} at any time to open this list. A, D and Space belong to the mash minigames and cannot be bound; press Esc to cancel a change.',
+  'keys.change': 'Change',
+  'keys.press': 'Press a key…',
+  'keys.unbind': 'Unbind',
+  'keys.reset': 'Restore defaults',
+  'keys.close': 'Close',
+  'keys.mashKey': '{key} is used by the mash minigames and cannot be bound',
+  'keys.taken': '{key} is already bound to {action}',
+  'keys.key.space': 'Space',
+  'keys.key.enter': 'Enter',
+  'keys.action.FOCUS_PREV': 'Previous card',
+  'keys.action.FOCUS_NEXT': 'Next card',
+  'keys.action.GROUP_PREV': 'Previous group',
+  'keys.action.GROUP_NEXT': 'Next group',
+  'keys.action.TOGGLE_CARD': 'Select card',
+  'keys.action.CLEAR_SELECTION': 'Clear selection',
+  'keys.action.PLAY': 'Play',
+  'keys.action.PASS': 'Pass',
+  'keys.action.HINT': 'Hint',
+  'keys.action.CHALLENGE': 'Challenge',
+  'keys.action.UNDO': 'Undo',
+  'keys.action.TOGGLE_LOG': 'Game log',
+  'keys.action.PAUSE': 'Pause / resume',
+  'keys.action.SHOW_KEYS': 'Key list',
+
+  // --- Turn clock ---
+  'clock.CLASSIC': 'Standard',
+  'clock.RELAXED': 'Relaxed',
+  'clock.BLITZ': 'Blitz',
+  'clock.bank': 'Bank {seconds}s',
+  'clock.pause': 'Pause',
+  'clock.resume': 'Resume',
+  'clock.paused': 'Game paused',
+  'clock.pausedHint': 'The clock and the bots are stopped; everything picks up where it left off.',
+
+  // --- Accessibility ---
+  'a11y.contrast': 'High contrast',
+  'a11y.contrastHint': 'Mark each resource with a pattern and a letter so cards can be told apart without color',
+  'a11y.hand': 'Your hand',
+  'a11y.yourTurn': 'Your turn',
+  'a11y.turn': "{name}'s turn",
+  'a11y.secondsLeft': '{seconds} seconds left',
+  'card.label': '{resource} {level}',
+  'card.selected': '{card}, selected',
+  'card.unplayable': '{card}, cannot be played now',
+
+  // --- End of game ---
+  'end.title': 'Game over',
+  'end.winner': 'Winner:',
+  'end.watchReplay': 'Watch replay',
+  'end.nextGame': 'Next game',
+  'end.menu': 'Main menu',
+  'end.playAgain': 'Play again',
+  'end.unrated': 'A move was taken back in this game, so it does not count toward the leaderboard.',
+  'standings.title': 'Final standings',
+  'standings.wentOut': 'Out',
+  'standings.handValue': 'Levels left',
+  'standings.total': 'Total',
+  'stats.tab.STANDINGS': 'Standings',
+  'stats.tab.STATS': 'Statistics',
+  'stats.tab.MEDALS': 'Medal race',
+  'stats.roundsWon': 'Rounds won',
+  'stats.dealerRounds': 'Rounds led (won)',
+  'stats.plays': 'Plays',
+  'stats.passes': 'Passes',
+  'stats.averagePlay': 'Average play total',
+  'stats.cardsLeft': 'Cards left',
+  'stats.mashes': 'Mashes up/same/down',
+  'stats.timeouts': 'Timeouts',
+  'stats.chartAxes': 'Rounds across, medals held up',
+
+  // --- Replays ---
+  'replay.title': 'Replay',
+  'replay.winner': 'Winner',
+  'replay.requirement': 'Requirement:',
+  'replay.table': 'Table:',
+  'replay.deal': 'Cards dealt; {name} leads the first round.',
+  'replay.play': '{name} plays {cards}',
+  'replay.mash': '{name} mashes: {before} → {after}',
+  'replay.challengeCaught': '{challenger} caught {target}, who takes back {cards}',
+  'replay.challengeFailed': '{challenger} wrongly accused {target}',
+  'replay.timeout': '{name} timed out and was played automatically',
+  'replay.gameEnd': 'Game over! Winner: {name}',
+
+  // --- Simulation report ---
+  'sim.summary': 'Simulated games: {games} · {players} players · {rules} rules (base seed {seed})',
+  'sim.stuck': '⚠️ Unfinished games: {count}',
+  'sim.averageRounds': 'Average rounds: {rounds}',
+  'sim.seat': 'Seat {seat} ({bot})',
+  'sim.winRateBySeat': 'Win rate by seat',
+  'sim.winRateByHandValue': 'Win rate by starting hand value',
+  'sim.medals': 'Medal distribution',
+  'sim.medalCount': 'Medals: {count}',
+  'sim.allPlayers': 'All players',
+  'sim.winners': 'Winners',
+  'sim.passRate': 'Pass rate by requirement type',
+  'sim.mash': 'Mash results',
+  'sim.mash.upgrade': 'Upgraded',
+  'sim.mash.downgrade': 'Downgraded',
+  'sim.mash.unchanged': 'Unchanged',
+  'sim.column.games': 'Games',
+  'sim.column.wins': 'Wins',
+  'sim.column.winRate': 'Win rate',
+  'sim.column.decisions': 'Decisions',
+  'sim.column.passes': 'Passes',
+  'sim.column.passRate': 'Pass rate',
+  'sim.column.count': 'Count',
+  'sim.column.share': 'Share',
+
+  // --- Online ---
+  'lobby.subtitle': 'Create a room and share its code; open seats are filled with bots when the game starts.',
+  'lobby.roomCode': 'Room code',
+  'lobby.rules': 'Rules:',
+  'lobby.openSeat': 'Open seat (bot)',
+  'lobby.you': 'You',
+  'lobby.host': 'Host',
+  'lobby.online': 'Online',
+  'lobby.offline': 'Offline',
+  'lobby.waitingForHost': 'Waiting for the host to start...',
+  'lobby.server': 'Server address',
+  'lobby.name': 'Nickname',
+  'lobby.players': '{count} players',
+  'lobby.create': 'Create room',
+  'lobby.join': 'Join',
+  'lobby.connecting': 'Connecting to the server...',
+  'lobby.retrying': 'Cannot reach the server, retrying...',
+  'lobby.reconnecting': 'Disconnected from the server, reconnecting...',
+  'lobby.needName': 'Please enter a nickname.',
+  'lobby.needRoom': 'Please enter a room code.',
+
+  'server.unknownMessage': 'Unrecognized message.',
+  'server.notInRoom': 'You have not joined a room.',
+  'server.alreadyInRoom': 'You are already in a room.',
+  'server.noRoom': 'That room does not exist.',
+  'server.alreadyStarted': 'The game has already started.',
+  'server.roomFull': 'The room is full.',
+  'server.cannotResume': 'Could not resume; the room may have closed.',
+  'server.hostOnly': 'Only the host can start the game.',
+  'server.notStarted': 'The game has not started yet.',
+};
+
+export default en;
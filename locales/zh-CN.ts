@@ -0,0 +1,456 @@
+// Simplified Chinese, the reference locale: every key the app uses is defined here first,
+// and other locales must translate all of them (see services/i18n.ts)
+const zhCN = {
+  'app.title': '终局资源博弈',
+
+  // --- Shared ---
+  'common.back': '返回',
+  'common.backToMenu': '返回主菜单',
+  'common.dealer': '领出者',
+  'common.exportReplay': '导出录像',
+  'common.handSize': '手牌: {count}',
+  'common.leaveRoom': '离开房间',
+  'common.passed': '已放弃',
+  'common.round': '第 {round} 轮',
+  'common.seed': '种子 #{seed}',
+
+  'seat.bot': '电脑 {seat}',
+  'seat.human': '玩家 {seat}',
+  'seat.you': '玩家 {seat} (你)',
+
+  'resource.Soldier': '士兵',
+  'resource.Tower': '塔防',
+  'resource.Farm': '农场',
+  'resource.Ore': '矿石',
+  'resource.badge.Soldier': '兵',
+  'resource.badge.Tower': '塔',
+  'resource.badge.Farm': '农',
+  'resource.badge.Ore': '矿',
+
+  // --- Requirements ---
+  'requirementType.SINGLE_FIXED.label': '单类型 (固定数量)',
+  'requirementType.SINGLE_FIXED.short': '单类型',
+  'requirementType.SINGLE_ASC.label': '单类型 (点数递增)',
+  'requirementType.SINGLE_ASC.short': '单类型',
+  'requirementType.MIXED_ASC.label': '混合类型 (点数递增)',
+  'requirementType.MIXED_ASC.short': '混合类型',
+  'requirementType.SAME_LEVEL.label': '同点数 (任意类型)',
+  'requirementType.SAME_LEVEL.short': '同点数',
+  'requirementType.RUN.label': '顺子 (逐级加一)',
+  'requirementType.RUN.short': '顺子',
+  'requirementType.PAIRS.label': '连对 (多组对子)',
+  'requirementType.PAIRS.short': '连对',
+  'requirementType.BOMB.label': '炸弹 (四张以上同点数)',
+  'requirementType.BOMB.short': '炸弹',
+
+  'requirement.SINGLE_FIXED': '固定: {count} 张 {resource}',
+  'requirement.SINGLE_ASC': '递增: {count} 张 {resource}',
+  'requirement.MIXED_ASC': '混合递增: {count} 张',
+  'requirement.SAME_LEVEL': '同点数: {count} 张',
+  'requirement.RUN': '顺子: {count} 张连续点数',
+  'requirement.PAIRS': '连对: {pairs} 对',
+  'requirement.BOMB': '炸弹: 至少 {count} 张同点数',
+
+  'requirementSource.timeout': '超时自动',
+  'requirementSource.bot': '电脑选择',
+
+  'invalid.noRequirement': '未设置本轮规则。',
+  'invalid.bombOnBomb': '上一家打出了炸弹，只能用更大的炸弹压制。',
+  'invalid.biggerBomb': '炸弹必须张数更多，或张数相同且点数更高。',
+  'invalid.bombOnly': '本轮只能打出炸弹 (至少 {size} 张同点数)。',
+  'invalid.count': '必须打出 {count} 张牌。',
+  'invalid.resource': '所有牌必须是 {resource}。',
+  'invalid.ascending': '牌点数必须严格递增 (如 1, 2, 3)。',
+  'invalid.sameLevel': '所有牌点数必须相同。',
+  'invalid.run': '牌点数必须逐级连续 (如 3, 4, 5)。',
+  'invalid.pairs': '必须由点数各不相同的对子组成 (如 2, 2, 5, 5)。',
+  'invalid.sum': '总点数 ({sum}) 必须 >= 上一家 ({last})。',
+  'invalid.sumStrict': '总点数 ({sum}) 必须 > 上一家 ({last})。',
+
+  // --- Game log ---
+  'log.title': '战斗日志',
+  'log.legacy': '{text}',
+  'log.dealt': '游戏初始化完成，已发牌。',
+  'log.firstDealerRotated': '{name} 按轮换成为首轮领出者。',
+  'log.firstDealerRichest': '{name} 资源最多，成为首轮领出者。',
+  'log.requirement': '{name} 制定规则: {requirement}',
+  'log.requirementBy': '{name} 制定规则 ({source}): {requirement}',
+  'log.played': '{name} 打出了 {count} 张牌。',
+  'log.passed': '{name} 选择放弃 (Pass)。',
+  'log.notInHand': '出牌无效: 手牌中没有这些牌。',
+  'log.cannotInfer': '当前出牌组合无法构成有效规则 (混合类型需同点数、顺子、连对或递增)。',
+  'log.countRange': '本局规则要求每轮出牌 {range}。',
+  'log.invalidPlay': '出牌无效: {reason}',
+  'log.leaderMustPlay': '领出者必须先出牌。',
+  'log.declareFirst': '本局规则要求领出者先宣布本轮规则，再出牌。',
+  'log.cannotDeclare': '手牌无法满足该规则，请选择其他规则。',
+  'log.mashLimit': '本轮搓牌次数已用完 (每轮 {limit} 次)。',
+  'log.mashNoticed': '{name} 似乎在袖子里藏了什么东西... (出千成功)',
+  'log.mashUp': '{name} 搓牌成功！点数升级！',
+  'log.mashDown': '{name} 搓牌失败！点数下降...',
+  'log.mashSame': '{name} 搓牌无变化...',
+  'log.nothingToChallenge': '当前没有可以举报的出牌。',
+  'log.challengeSelf': '不能举报自己的出牌。',
+  'log.challengeFailed': '{challenger} 举报 {target} 失败！本轮视为放弃。',
+  'log.challengeFailedMedal': '{challenger} 举报 {target} 失败！失去 1 枚奖牌，本轮视为放弃。',
+  'log.challengeCaught': '{challenger} 举报成功！{target} 的出牌被收回。',
+  'log.challengeCaughtMedal': '{challenger} 举报成功！{target} 的出牌被收回，并失去 1 枚奖牌。',
+  'log.timeout': '⏰ 操作超时！自动托管中...',
+  'log.forfeit': '{name} 超时，认输本轮',
+  'log.roundEnd': '第 {round} 轮结束！获胜者: {name}',
+  'log.unknownPlayer': '未知',
+  'log.gameEnd': '游戏结束！最终赢家: {name} ({score} 分)',
+
+  // --- Rules ---
+  'preset.CLASSIC.label': '经典',
+  'preset.CLASSIC.description': '平局可压，出完手牌即结束',
+  'preset.STRICT.label': '严格压制',
+  'preset.STRICT.description': '必须严格大于上一家，每轮最多 5 张',
+  'preset.DEFENDER.label': '守擂',
+  'preset.DEFENDER.description': '平局不抢擂，先打出该点数的人保持领先',
+  'preset.OPEN_TABLE.label': '不锁定',
+  'preset.OPEN_TABLE.description': '放弃后仍可在本轮再次出牌',
+  'preset.SPRINT.label': '速战',
+  'preset.SPRINT.description': '先拿到 3 枚奖牌者获胜，每轮最多 3 张',
+  'preset.WIDE.label': '大点数',
+  'preset.WIDE.description': '点数范围 1-9，10 轮后奖牌最多者获胜',
+  'preset.DECLARED.label': '宣告',
+  'preset.DECLARED.description': '领出者先宣布本轮规则，再按规则出第一手',
+
+  'rules.label.preset': '规则',
+  'rules.label.levels': '点数范围',
+  'rules.label.opening': '定规则',
+  'rules.label.count': '出牌数量',
+  'rules.label.beat': '压制',
+  'rules.label.tie': '平局',
+  'rules.label.bomb': '炸弹',
+  'rules.label.pass': '放弃',
+  'rules.label.scoring': '计分',
+  'rules.label.tieBreak': '同分',
+  'rules.label.end': '结束',
+  'rules.label.clock': '计时',
+  'rules.label.timeout': '超时',
+  'rules.levels': '{min}-{max}',
+  'rules.countAtLeast': '至少 {min} 张',
+  'rules.countBetween': '{min}-{max} 张',
+  'rules.opening.INFER': '由领出者的第一手推断',
+  'rules.opening.DECLARE': '领出者先宣布，再出第一手',
+  'rules.beat.STRICTLY_BEAT': '总点数必须 > 上一家',
+  'rules.beat.MATCH_OR_BEAT': '总点数必须 ≥ 上一家',
+  'rules.tie.LATER': '后出者领先',
+  'rules.tie.EARLIER': '先出者领先',
+  'rules.bomb': '{size} 张及以上同点数，可压任何牌型',
+  'rules.pass.locked': '本轮不能再出牌',
+  'rules.pass.open': '轮到时仍可出牌',
+  'rules.clock': '定规则 {dealer} 秒，出牌 {play} 秒',
+  'rules.clockBank': '{turn}，另有 {bank} 秒备用时间',
+  'rules.timeout.AUTO_PLAY': '自动出最小的合法牌',
+  'rules.timeout.AUTO_PASS': '自动放弃',
+  'rules.timeout.FORFEIT_ROUND': '认输本轮，判给当前领先者',
+  'rules.scoring': '奖牌 {medal} 分/枚，出完手牌 +{bonus}，剩余点数 -{penalty}/点',
+  'rules.end.out': '有人出完手牌',
+  'rules.end.medals': '先得 {medals} 枚奖牌',
+  'rules.end.rounds': '{rounds} 轮后',
+  'rules.end.separator': ' 或 ',
+
+  'tieBreaker.MEDALS': '奖牌多者',
+  'tieBreaker.WENT_OUT': '出完手牌者',
+  'tieBreaker.LOWEST_HAND_VALUE': '剩余点数少者',
+  'tieBreaker.LATEST_MEDAL': '最近赢得一轮者',
+
+  // --- Bots ---
+  'difficulty.EASY.label': '简单',
+  'difficulty.EASY.description': '经常故意放弃，随意制定规则',
+  'difficulty.NORMAL.label': '普通',
+  'difficulty.NORMAL.description': '总是打出最便宜的合法组合',
+  'difficulty.HARD.label': '困难',
+  'difficulty.HARD.description': '推演后续几轮再决定出牌与规则',
+  'personality.BALANCED.label': '均衡',
+  'personality.BALANCED.description': '标准打法',
+  'personality.AGGRESSIVE.label': '激进',
+  'personality.AGGRESSIVE.description': '打出最强组合，偏爱长递增规则',
+  'personality.HOARDER.label': '囤积',
+  'personality.HOARDER.description': '不肯为压牌交出 6 点以上的牌',
+  'personality.CHEATER.label': '老千',
+  'personality.CHEATER.description': '几乎每回合都搓牌',
+  'bot.profile': '{difficulty} · {personality}',
+
+  // --- Mashing ---
+  'minigame.ALTERNATE.label': '交替连打',
+  'minigame.ALTERNATE.description': '交替狂按 A / D 键填满进度条',
+  'minigame.RHYTHM.label': '节奏点击',
+  'minigame.RHYTHM.description': '指针经过绿色区域时按空格，连续命中 3 次',
+  'minigame.HOLD.label': '蓄力松开',
+  'minigame.HOLD.description': '按住空格蓄力，在绿色区域内松开',
+  'mash.title': '搓牌模式 (Cheat)',
+  'mash.exhausted': '本轮搓牌次数已用完',
+  'mash.better': '升级 {chance}',
+  'mash.same': '不变 {chance}',
+  'mash.worse': '降级 {chance}',
+  'mash.left': '本轮剩余 {left}/{limit} 次',
+
+  // --- Setup ---
+  'setup.subtitle': '开局前设置每个座位：人类玩家轮流使用同一台设备，电脑可选择难度与性格。',
+  'setup.resume': '继续游戏',
+  'setup.playerCount': '人数',
+  'setup.seat': '座位 {seat}',
+  'setup.human': '人类',
+  'setup.bot': '电脑',
+  'setup.playerName': '玩家名字（可选）',
+  'setup.botSummary': '{difficulty}；{personality}',
+  'setup.hotSeat': '多人同屏：每次轮到人类玩家时会先显示交接画面，避免看到上一位玩家的手牌。',
+  'setup.rules': '规则',
+  'setup.format': '赛制',
+  'setup.clock': '计时',
+  'setup.timeout': '超时处理',
+  'setup.seed': '种子 (留空则随机)',
+  'setup.seedPlaceholder': '例如 12345',
+  'setup.start': '开始游戏',
+  'setup.online': '联机对战',
+  'setup.importReplay': '导入录像 (JSON)',
+  'setup.importError': '无法读取该录像文件。',
+  'setup.practice': '练习模式 (可悔棋)',
+  'setup.practiceHint': '人类玩家可以撤回自己的上一步，以及之后电脑的所有行动。用过悔棋的对局不计入排行榜。',
+  'setup.practiceSingleOnly': '练习模式仅适用于单局。',
+
+  // --- Matches ---
+  'matchOption.SINGLE.label': '单局',
+  'matchOption.SINGLE.description': '打一局定胜负',
+  'matchOption.BEST_OF_3.label': '三局两胜',
+  'matchOption.BEST_OF_3.description': '先赢两局者获胜，座位与首个领出者每局轮换',
+  'matchOption.BEST_OF_5.label': '五局三胜',
+  'matchOption.BEST_OF_5.description': '先赢三局者获胜，座位与首个领出者每局轮换',
+  'matchOption.MEDALS_10.label': '累计 10 枚奖牌',
+  'matchOption.MEDALS_10.description': '跨局累计奖牌，先到 10 枚者获胜',
+  'matchOption.ROUND_ROBIN.label': '循环赛',
+  'matchOption.ROUND_ROBIN.description': '所有座位两两单挑一局，电脑之间的对局自动完成',
+  'matchFormat.bestOf': '{games} 局 {wins} 胜',
+  'matchFormat.medalTarget': '先到 {medals} 枚奖牌',
+  'matchFormat.roundRobin': '循环赛',
+  'match.over': '比赛结束',
+  'match.unfinished': '{games} 局达到步数上限仍未结束，不计胜负',
+  'match.botDuel': '{first} 对 {second}：电脑对决中…',
+  'match.played': '已完成 {games} 局',
+  'match.game': '第 {game} 局',
+  'match.entrant': '选手',
+  'match.games': '局数',
+  'match.wins': '胜局',
+
+  // --- Ratings ---
+  'rating.botName': '电脑 ({profile})',
+  'leaderboard.title': '排行榜',
+  'leaderboard.subtitle': '每局结束后按 Elo 更新积分，电脑按难度与性格分别计分，玩家按开局时填写的名字计分。',
+  'leaderboard.empty': '还没有完成的对局。',
+  'leaderboard.rating': '积分',
+  'leaderboard.games': '对局',
+  'leaderboard.winRate': '胜率',
+  'leaderboard.reset': '清空积分',
+
+  // --- Game table ---
+  'table.rank': '名次',
+  'table.player': '玩家',
+  'table.medals': '奖牌',
+  'table.requirement': '本轮规则',
+  'table.awaitingRequirement': '等待制定规则',
+  'table.seedHint': '在地址后加 ?seed=种子 可重现本局',
+  'table.human': '人类',
+  'table.bot': 'Bot',
+  'table.mashedThisRound': '本轮搓过牌',
+  'table.playToDeclare': '请出牌以制定规则',
+  'table.waitingForDealer': '等待领出者制定规则...',
+  'table.declare': '宣布规则',
+  'table.playOpening': '请按本轮规则出第一手',
+  'table.waitingForOpening': '等待领出者出第一手...',
+  'table.lastPlay': '上一手出牌:',
+  'table.currentTurn': '当前回合',
+  'table.cooldown': '冷却中...',
+  'table.yourMedals': '你的奖牌:',
+  'table.playerMedals': '{name} 的奖牌:',
+  'table.waitingFor': '等待 {name} 行动...',
+  'table.challenge': '举报 {name}',
+  'table.challengeHint': '上一手含搓过的牌则收回并罚一枚奖牌；举报失败则自己失去一枚奖牌并本轮视为放弃',
+  'table.pass': '放弃 (Pass)',
+  'table.play': '出牌',
+  'table.declareAndPlay': '制定规则并出牌',
+  'table.currentRequirement': '当前规则',
+  'table.type': '类型:',
+  'table.resource': '资源:',
+  'table.count': '数量:',
+  'table.rulesTitle': '游戏规则',
+  'help.play.label': '出牌:',
+  'help.play': '必须符合当前轮次类型和数量。',
+  'help.mash.label': '搓牌 (出千):',
+  'help.mash': '选中 1 张牌后完成搓牌小游戏。',
+  'help.risk.label': '风险:',
+  'help.risk': '成功升级点数，失败则降低。Bot 也会尝试出千。',
+  'hand.empty': '手牌已耗尽',
+  'hint.modeOn': '提示: 开',
+  'hint.modeOff': '提示: 关',
+  'hint.modeHint': '开启后会调暗无法出的牌，并在出牌前检查所选的牌',
+  'hint.button': '提示',
+  'hint.next': '提示 ({index}/{total})',
+  'hint.none': '没有可以出的牌',
+  'hint.valid': '可以出牌',
+  'hint.opens': '将制定规则: {requirement}',
+  'hint.deadEnd': '这些牌凑不成合法出牌: {reason}',
+  'undo.button': '悔棋',
+  'undo.hint': '撤回你的上一步，以及之后电脑的所有行动',
+  'undo.practice': '练习',
+  'undo.unrated': '已悔棋 · 不计排行',
+  'handoff.passTo': '请将设备交给',
+  'handoff.ready': '我已就位，显示手牌',
+
+  'dealer.title': '你是领出者！',
+  'dealer.prompt': '请制定本轮规则。',
+  'dealer.type': '出牌模式',
+  'dealer.resource': '指定资源',
+  'dealer.count': '数量 ({count})',
+  'dealer.submit': '宣布规则',
+  'dealer.unavailable': '手牌无法满足',
+
+  // --- Keyboard ---
+  'keys.title': '快捷键',
+  'keys.customize': '自定义',
+  'keys.sheetTitle': '键盘操作',
+  'keys.sheetHint': '随时按 {key} 打开此列表。A、D 和空格留给搓牌小游戏，不能绑定；改键时按 Esc 取消。',
+  'keys.change': '修改',
+  'keys.press': '请按键…',
+  'keys.unbind': '取消绑定',
+  'keys.reset': '恢复默认',
+  'keys.close': '关闭',
+  'keys.mashKey': '{key} 留给搓牌小游戏，不能绑定',
+  'keys.taken': '{key} 已用于「{action}」',
+  'keys.key.space': '空格',
+  'keys.key.enter': '回车',
+  'keys.action.FOCUS_PREV': '上一张牌',
+  'keys.action.FOCUS_NEXT': '下一张牌',
+  'keys.action.GROUP_PREV': '上一组',
+  'keys.action.GROUP_NEXT': '下一组',
+  'keys.action.TOGGLE_CARD': '选中/取消',
+  'keys.action.CLEAR_SELECTION': '清空选择',
+  'keys.action.PLAY': '出牌',
+  'keys.action.PASS': '放弃',
+  'keys.action.HINT': '提示',
+  'keys.action.CHALLENGE': '举报',
+  'keys.action.UNDO': '悔棋',
+  'keys.action.TOGGLE_LOG': '战报',
+  'keys.action.PAUSE': '暂停/继续',
+  'keys.action.SHOW_KEYS': '快捷键列表',
+
+  // --- Turn clock ---
+  'clock.CLASSIC': '标准',
+  'clock.RELAXED': '宽松',
+  'clock.BLITZ': '快棋',
+  'clock.bank': '备用 {seconds} 秒',
+  'clock.pause': '暂停',
+  'clock.resume': '继续',
+  'clock.paused': '游戏已暂停',
+  'clock.pausedHint': '计时和电脑都已停下，继续后从暂停处接着走。',
+
+  // --- Accessibility ---
+  'a11y.contrast': '高对比',
+  'a11y.contrastHint': '为每种资源的牌加上花纹和文字标记，不靠颜色也能区分',
+  'a11y.hand': '手牌',
+  'a11y.yourTurn': '轮到你了',
+  'a11y.turn': '轮到 {name}',
+  'a11y.secondsLeft': '还剩 {seconds} 秒',
+  'card.label': '{resource} {level}',
+  'card.selected': '{card}，已选中',
+  'card.unplayable': '{card}，当前无法出',
+
+  // --- End of game ---
+  'end.title': '游戏结束',
+  'end.winner': '获胜者:',
+  'end.watchReplay': '观看回放',
+  'end.nextGame': '下一局',
+  'end.menu': '主菜单',
+  'end.playAgain': '再玩一次',
+  'end.unrated': '本局用过悔棋，不计入排行榜。',
+  'standings.title': '最终排名',
+  'standings.wentOut': '出完',
+  'standings.handValue': '剩余点数',
+  'standings.total': '总分',
+  'stats.tab.STANDINGS': '最终排名',
+  'stats.tab.STATS': '数据统计',
+  'stats.tab.MEDALS': '奖牌走势',
+  'stats.roundsWon': '赢得轮数',
+  'stats.dealerRounds': '坐庄轮数 (胜)',
+  'stats.plays': '出牌次数',
+  'stats.passes': '放弃次数',
+  'stats.averagePlay': '平均出牌点数',
+  'stats.cardsLeft': '剩余手牌',
+  'stats.mashes': '搓牌 升/平/降',
+  'stats.timeouts': '超时次数',
+  'stats.chartAxes': '横轴为轮次，纵轴为持有奖牌数',
+
+  // --- Replays ---
+  'replay.title': '对局回放',
+  'replay.winner': '赢家',
+  'replay.requirement': '本轮规则:',
+  'replay.table': '桌面:',
+  'replay.deal': '发牌完成，{name} 成为首轮领出者。',
+  'replay.play': '{name} 打出 {cards}',
+  'replay.mash': '{name} 搓牌: {before} → {after}',
+  'replay.challengeCaught': '{challenger} 举报成功！{target} 收回 {cards}',
+  'replay.challengeFailed': '{challenger} 举报 {target} 失败',
+  'replay.timeout': '{name} 操作超时，自动托管',
+  'replay.gameEnd': '游戏结束！最终赢家: {name}',
+
+  // --- Simulation report ---
+  'sim.summary': '模拟对局: {games} · {players} 人桌 · {rules}规则 (基础种子 {seed})',
+  'sim.stuck': '⚠️ 未结束的对局: {count}',
+  'sim.averageRounds': '平均轮数: {rounds}',
+  'sim.seat': '座位 {seat} ({bot})',
+  'sim.winRateBySeat': '按座位胜率',
+  'sim.winRateByHandValue': '按起手总点数胜率',
+  'sim.medals': '奖牌分布',
+  'sim.medalCount': '{count} 枚',
+  'sim.allPlayers': '所有玩家',
+  'sim.winners': '赢家',
+  'sim.passRate': '按规则类型放弃率',
+  'sim.mash': '搓牌结果',
+  'sim.mash.upgrade': '升级',
+  'sim.mash.downgrade': '降级',
+  'sim.mash.unchanged': '无变化',
+  'sim.column.games': '对局',
+  'sim.column.wins': '胜场',
+  'sim.column.winRate': '胜率',
+  'sim.column.decisions': '决策',
+  'sim.column.passes': '放弃',
+  'sim.column.passRate': '放弃率',
+  'sim.column.count': '次数',
+  'sim.column.share': '比例',
+
+  // --- Online ---
+  'lobby.subtitle': '创建房间后把房间号发给同事，空位会在开局时由电脑补齐。',
+  'lobby.roomCode': '房间号',
+  'lobby.rules': '规则:',
+  'lobby.openSeat': '空位 (电脑)',
+  'lobby.you': '你',
+  'lobby.host': '房主',
+  'lobby.online': '在线',
+  'lobby.offline': '离线',
+  'lobby.waitingForHost': '等待房主开始游戏...',
+  'lobby.server': '服务器地址',
+  'lobby.name': '昵称',
+  'lobby.players': '{count} 人',
+  'lobby.create': '创建房间',
+  'lobby.join': '加入',
+  'lobby.connecting': '正在连接服务器...',
+  'lobby.retrying': '无法连接服务器，正在重试...',
+  'lobby.reconnecting': '与服务器断开，正在重新连接...',
+  'lobby.needName': '请输入昵称。',
+  'lobby.needRoom': '请输入房间号。',
+
+  'server.unknownMessage': '无法识别的消息。',
+  'server.notInRoom': '你还没有加入房间。',
+  'server.alreadyInRoom': '你已经在房间中。',
+  'server.noRoom': '房间不存在。',
+  'server.alreadyStarted': '对局已经开始。',
+  'server.roomFull': '房间已满。',
+  'server.cannotResume': '无法恢复连接，房间可能已关闭。',
+  'server.hostOnly': '只有房主可以开始游戏。',
+  'server.notStarted': '对局尚未开始。',
+};
+
+export default zhCN;
@@ -0,0 +1,248 @@
+// Bot-vs-bot simulation runner.
+// Plays many full games with bots in every seat, straight through the engine (no UI, no AI_DELAY_MS),
+// and reports aggregate statistics for tuning the deal, mash odds and requirement mix.
+//
+//   npm run simulate -- --games 5000 --seed 42
+//   npm run simulate -- --games 1000 --json > stats.json
+//   npm run simulate -- --games 200 --bots normal,hard,easy:cheater,normal:hoarder --iterations 120
+//     (one difficulty[:personality] per seat; unlisted seats play normal:balanced)
+//   npm run simulate -- --games 1000 --players 6 --rules strict
+//   npm run simulate -- --games 1000 --lang en
+
+import { BotDifficulty, BotPersonality, BotSettings, GamePhase, GameState, RequirementType, RulePreset, SearchBudget } from '../types';
+import { createInitialState, isTurnPhase, playOutBots } from '../services/engine';
+import { calculateHandValue } from '../services/gameLogic';
+import { createRng, parseSeed, randomSeed } from '../services/rng';
+import {
+  DEFAULT_BOT_SETTINGS, DEFAULT_PLAYER_COUNT, DEFAULT_SEARCH_BUDGET, MAX_BOT_GAME_ACTIONS, MAX_PLAYERS, MIN_PLAYERS, RULE_PRESETS
+} from '../constants';
+import { formatBotProfile } from '../services/botProfiles';
+import { isLocale, msg, setLocale, t } from '../services/i18n';
+
+const HAND_VALUE_BUCKET = 20;
+
+interface WinCounter {
+  games: number;
+  wins: number;
+}
+
+interface SimulationReport {
+  games: number;
+  players: number;
+  rules: RulePreset;
+  baseSeed: number;
+  stuckGames: number;
+  averageRounds: number;
+  winRateBySeat: Record<string, WinCounter & { rate: number }>;
+  winRateByStartingHandValue: Record<string, WinCounter & { rate: number }>;
+  medalDistribution: Record<string, number>;
+  winnerMedalDistribution: Record<string, number>;
+  passRateByRequirement: Record<string, { decisions: number; passes: number; rate: number }>;
+  mash: { attempts: number; upgrades: number; downgrades: number; unchanged: number };
+}
+
+// "hard:cheater" -> Hard / Cheater; unknown names fall back to the defaults
+const parseBotSettings = (text: string): BotSettings => {
+  const [difficulty, personality] = text.trim().toUpperCase().split(':');
+  return {
+    difficulty: difficulty in BotDifficulty ? (difficulty as BotDifficulty) : DEFAULT_BOT_SETTINGS.difficulty,
+    personality: personality in BotPersonality ? (personality as BotPersonality) : DEFAULT_BOT_SETTINGS.personality,
+  };
+};
+
+// "strict" -> Strict; unknown names fall back to the classic rules
+const parseRulePreset = (text: string): RulePreset => {
+  const preset = text.trim().toUpperCase();
+  return preset in RulePreset ? (preset as RulePreset) : RulePreset.CLASSIC;
+};
+
+const parseArgs = (argv: string[]) => {
+  const args = { games: 1000, players: DEFAULT_PLAYER_COUNT, rules: RulePreset.CLASSIC, seed: randomSeed(), json: false, lang: '', bots: [] as BotSettings[], budget: { ...DEFAULT_SEARCH_BUDGET } };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--games') args.games = Math.max(1, parseInt(argv[++i], 10) || args.games);
+    else if (arg === '--players') args.players = Math.min(MAX_PLAYERS, Math.max(MIN_PLAYERS, parseInt(argv[++i], 10) || args.players));
+    else if (arg === '--rules') args.rules = parseRulePreset(argv[++i] ?? '');
+    else if (arg === '--seed') args.seed = parseSeed(argv[++i] ?? '');
+    else if (arg === '--json') args.json = true;
+    else if (arg === '--lang') args.lang = argv[++i] ?? '';
+    else if (arg === '--bots') args.bots = (argv[++i] ?? '').split(',').map(parseBotSettings);
+    else if (arg === '--iterations') args.budget.iterations = parseInt(argv[++i], 10) || args.budget.iterations;
+    else if (arg === '--time-limit') args.budget.timeLimitMs = parseInt(argv[++i], 10) || 0;
+  }
+  return args;
+};
+
+const bump = <T extends object>(record: Record<string, T>, key: string, init: () => T): T => {
+  if (!record[key]) record[key] = init();
+  return record[key];
+};
+
+const withRate = <T extends WinCounter>(record: Record<string, T>) =>
+  Object.fromEntries(
+    Object.entries(record).map(([key, v]) => [key, { ...v, rate: v.games ? v.wins / v.games : 0 }])
+  );
+
+const runSimulation = (games: number, players: number, rules: RulePreset, baseSeed: number, bots: BotSettings[], budget: SearchBudget): SimulationReport => {
+  const seatBots = Object.fromEntries(bots.map((settings, seat) => [seat, { ...settings, budget }]));
+
+  // Each game gets its own seed derived from the base seed, so any single game can be replayed with ?seed=
+  const seedRng = createRng(baseSeed);
+
+  const bySeat: Record<string, WinCounter> = {};
+  const byHandValue: Record<string, WinCounter> = {};
+  const medalDistribution: Record<string, number> = {};
+  const winnerMedalDistribution: Record<string, number> = {};
+  const passes: Record<string, { decisions: number; passes: number }> = {};
+  const mash = { attempts: 0, upgrades: 0, downgrades: 0, unchanged: 0 };
+  let totalRounds = 0;
+  let stuckGames = 0;
+
+  for (let g = 0; g < games; g++) {
+    const seed = Math.floor(seedRng.next() * 0x100000000) >>> 0;
+    const initial = createInitialState(seed, {
+      playerCount: players,
+      humanSeats: [],
+      bots: seatBots,
+      rules: RULE_PRESETS[rules].rules,
+    });
+    const final = playOutBots(initial, MAX_BOT_GAME_ACTIONS);
+
+    if (final.phase !== GamePhase.GAME_END) {
+      stuckGames++;
+      continue;
+    }
+
+    // The round number has already moved on when a game ends on the medal target or the round limit
+    totalRounds += final.events.filter(e => e.type === 'ROUND_END').length;
+
+    initial.players.forEach((p, seat) => {
+      const won = final.winnerId === p.id ? 1 : 0;
+      const seatStats = bump(bySeat, t('sim.seat', { seat: seat + 1, bot: formatBotProfile(p.bot) }), () => ({ games: 0, wins: 0 }));
+      seatStats.games++;
+      seatStats.wins += won;
+
+      const bucketStart = Math.floor(calculateHandValue(p.hand) / HAND_VALUE_BUCKET) * HAND_VALUE_BUCKET;
+      const valueStats = bump(byHandValue, `${bucketStart}-${bucketStart + HAND_VALUE_BUCKET - 1}`, () => ({ games: 0, wins: 0 }));
+      valueStats.games++;
+      valueStats.wins += won;
+    });
+
+    final.players.forEach(p => {
+      medalDistribution[p.medals] = (medalDistribution[p.medals] || 0) + 1;
+      if (p.id === final.winnerId) {
+        winnerMedalDistribution[p.medals] = (winnerMedalDistribution[p.medals] || 0) + 1;
+      }
+    });
+
+    // The opening play of a round is forced, so only later plays and passes count as decisions
+    let currentType: RequirementType | null = null;
+    let openingPending = false;
+    final.events.forEach(e => {
+      if (e.type === 'REQUIREMENT') {
+        currentType = e.requirement.type;
+        openingPending = true;
+      } else if (e.type === 'PLAY' && currentType) {
+        if (openingPending) {
+          openingPending = false;
+          return;
+        }
+        bump(passes, currentType, () => ({ decisions: 0, passes: 0 })).decisions++;
+      } else if (e.type === 'PASS' && currentType) {
+        const stats = bump(passes, currentType, () => ({ decisions: 0, passes: 0 }));
+        stats.decisions++;
+        stats.passes++;
+      } else if (e.type === 'MASH') {
+        mash.attempts++;
+        if (e.after > e.before) mash.upgrades++;
+        else if (e.after < e.before) mash.downgrades++;
+        else mash.unchanged++;
+      }
+    });
+  }
+
+  const finished = games - stuckGames;
+  return {
+    games,
+    players,
+    rules,
+    baseSeed,
+    stuckGames,
+    averageRounds: finished ? totalRounds / finished : 0,
+    winRateBySeat: withRate(bySeat),
+    winRateByStartingHandValue: withRate(byHandValue),
+    medalDistribution,
+    winnerMedalDistribution,
+    passRateByRequirement: Object.fromEntries(
+      Object.entries(passes).map(([key, v]) => [key, { ...v, rate: v.decisions ? v.passes / v.decisions : 0 }])
+    ),
+    mash,
+  };
+};
+
+// --- Output ---
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const printTable = (title: string, rows: Record<string, Record<string, string | number>>) => {
+  console.log(`\n${title}`);
+  console.table(rows);
+};
+
+const printReport = (report: SimulationReport) => {
+  console.log(t('sim.summary', { games: report.games, players: report.players, rules: msg(`preset.${report.rules}.label`), seed: report.baseSeed }));
+  if (report.stuckGames > 0) console.log(t('sim.stuck', { count: report.stuckGames }));
+  console.log(t('sim.averageRounds', { rounds: report.averageRounds.toFixed(2) }));
+
+  const winRows = (record: SimulationReport['winRateBySeat']) =>
+    Object.fromEntries(Object.entries(record).map(([k, v]) => [k, {
+      [t('sim.column.games')]: v.games,
+      [t('sim.column.wins')]: v.wins,
+      [t('sim.column.winRate')]: percent(v.rate),
+    }]));
+
+  printTable(t('sim.winRateBySeat'), winRows(report.winRateBySeat));
+
+  const sortedByValue = Object.fromEntries(
+    Object.entries(report.winRateByStartingHandValue).sort(([a], [b]) => parseInt(a, 10) - parseInt(b, 10))
+  );
+  printTable(t('sim.winRateByHandValue'), winRows(sortedByValue));
+
+  const medalKeys = Array.from(new Set([
+    ...Object.keys(report.medalDistribution),
+    ...Object.keys(report.winnerMedalDistribution),
+  ])).sort((a, b) => Number(a) - Number(b));
+  printTable(t('sim.medals'), Object.fromEntries(medalKeys.map(k => [t('sim.medalCount', { count: k }), {
+    [t('sim.allPlayers')]: report.medalDistribution[k] || 0,
+    [t('sim.winners')]: report.winnerMedalDistribution[k] || 0,
+  }])));
+
+  printTable(t('sim.passRate'), Object.fromEntries(
+    Object.entries(report.passRateByRequirement).map(([k, v]) => [t(`requirementType.${k as RequirementType}.label`), {
+      [t('sim.column.decisions')]: v.decisions,
+      [t('sim.column.passes')]: v.passes,
+      [t('sim.column.passRate')]: percent(v.rate),
+    }])
+  ));
+
+  const { attempts, upgrades, downgrades, unchanged } = report.mash;
+  const mashRow = (count: number) => ({
+    [t('sim.column.count')]: count,
+    [t('sim.column.share')]: percent(attempts ? count / attempts : 0),
+  });
+  printTable(t('sim.mash'), {
+    [t('sim.mash.upgrade')]: mashRow(upgrades),
+    [t('sim.mash.downgrade')]: mashRow(downgrades),
+    [t('sim.mash.unchanged')]: mashRow(unchanged),
+  });
+};
+
+const args = parseArgs(process.argv.slice(2));
+if (isLocale(args.lang)) setLocale(args.lang);
+const report = runSimulation(args.games, args.players, args.rules, args.seed, args.bots, args.budget);
+
+if (args.json) {
+  console.log(JSON.stringify(report, null, 2));
+} else {
+  printReport(report);
+}
@@ -0,0 +1,134 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { RequirementType, ResourceType, RulePreset } from '../types';
+import { DEFAULT_PLAYER_COUNT, MAX_PLAYERS, MAX_PLAYER_NAME_LENGTH, MIN_PLAYERS } from '../constants';
+import { ClientMessage, DEFAULT_SERVER_PORT, PlayerIntent } from '../services/protocol';
+import { createRoom, disconnect, joinRoom, leaveRoom, resumeSeat, startGame, submitIntent } from './rooms';
+import { msg } from '../services/i18n';
+
+// --- Game Server ---
+// Usage: npm run server [-- --port 8787 --host 127.0.0.1]
+// Listens on localhost by default; pass --host 0.0.0.0 to let other machines on the network join.
+
+const readFlag = (name: string, fallback: string) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+};
+
+const port = parseInt(readFlag('port', process.env.PORT ?? String(DEFAULT_SERVER_PORT)), 10);
+const host = readFlag('host', process.env.HOST ?? '127.0.0.1');
+
+// --- Message Parsing ---
+// Anything a client sends is untrusted: malformed messages are dropped before they reach a room.
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isEnumValue = <T extends string>(values: Record<string, T>, value: unknown): value is T =>
+  (Object.values(values) as unknown[]).includes(value);
+
+const parseName = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim().slice(0, MAX_PLAYER_NAME_LENGTH) : null;
+
+const parsePlayerCount = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= MIN_PLAYERS && value <= MAX_PLAYERS
+    ? value
+    : DEFAULT_PLAYER_COUNT;
+
+const parseRulePreset = (value: unknown) => (isEnumValue(RulePreset, value) ? value : RulePreset.CLASSIC);
+
+const parseIntent = (value: unknown): PlayerIntent | null => {
+  if (!isObject(value)) return null;
+  switch (value.type) {
+    case 'PLAY': {
+      const { cardIds } = value;
+      return Array.isArray(cardIds) && cardIds.every((id: unknown): id is string => typeof id === 'string')
+        ? { type: 'PLAY', cardIds }
+        : null;
+    }
+    case 'PASS':
+    case 'CHALLENGE':
+      return { type: value.type };
+    case 'MASH':
+      return typeof value.cardId === 'string' ? { type: 'MASH', cardId: value.cardId } : null;
+    case 'DECLARE_REQUIREMENT': {
+      const req = value.requirement;
+      if (!isObject(req)) return null;
+      const { type, resourceType: resource, count } = req;
+      const resourceType = isEnumValue(ResourceType, resource) ? resource : undefined;
+      if (!isEnumValue(RequirementType, type) || (resource !== undefined && !resourceType)) return null;
+      if (typeof count !== 'number' || !Number.isInteger(count) || count < 1) return null;
+      return { type: 'DECLARE_REQUIREMENT', requirement: { type, resourceType, count } };
+    }
+    default:
+      return null;
+  }
+};
+
+const parseMessage = (data: string): ClientMessage | null => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (!isObject(raw)) return null;
+
+  switch (raw.type) {
+    case 'CREATE_ROOM': {
+      const name = parseName(raw.name);
+      return name
+        ? { type: 'CREATE_ROOM', name, playerCount: parsePlayerCount(raw.playerCount), rulePreset: parseRulePreset(raw.rulePreset) }
+        : null;
+    }
+    case 'JOIN_ROOM': {
+      const name = parseName(raw.name);
+      return name && typeof raw.roomId === 'string' ? { type: 'JOIN_ROOM', roomId: raw.roomId, name } : null;
+    }
+    case 'RESUME':
+      return typeof raw.roomId === 'string' && typeof raw.token === 'string'
+        ? { type: 'RESUME', roomId: raw.roomId, token: raw.token }
+        : null;
+    case 'START_GAME':
+    case 'LEAVE':
+      return { type: raw.type };
+    case 'INTENT': {
+      const intent = parseIntent(raw.intent);
+      return intent ? { type: 'INTENT', intent } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+const handleMessage = (socket: WebSocket, message: ClientMessage) => {
+  switch (message.type) {
+    case 'CREATE_ROOM':
+      return createRoom(socket, message.name, message.playerCount, message.rulePreset);
+    case 'JOIN_ROOM':
+      return joinRoom(socket, message.roomId, message.name);
+    case 'RESUME':
+      return resumeSeat(socket, message.roomId, message.token);
+    case 'START_GAME':
+      return startGame(socket);
+    case 'INTENT':
+      return submitIntent(socket, message.intent);
+    case 'LEAVE':
+      return leaveRoom(socket);
+  }
+};
+
+// --- Entry Point ---
+
+const server = new WebSocketServer({ port, host });
+
+server.on('connection', socket => {
+  socket.on('message', data => {
+    const message = parseMessage(data.toString());
+    if (message) handleMessage(socket, message);
+    else socket.send(JSON.stringify({ type: 'ERROR', message: msg('server.unknownMessage') }));
+  });
+  socket.on('close', () => disconnect(socket));
+});
+
+server.on('listening', () => {
+  console.log(`Endgame Resource Battle server listening on ws://${host}:${port}`);
+});
@@ -0,0 +1,304 @@
+import { randomBytes } from 'crypto';
+import { WebSocket } from 'ws';
+import { GameAction, GamePhase, GameState, MessageKey, RulePreset } from '../types';
+import { AI_DELAY_MS, MIN_MASH_COOLDOWN_MS, RULE_PRESETS } from '../constants';
+import { applyAction, createInitialState, isTurnPhase } from '../services/engine';
+import { TurnClock, createClock, getRemainingMs, getTurnKey, syncClock, tickClock } from '../services/clock';
+import { resolveBotBehavior } from '../services/botProfiles';
+import { LobbySnapshot, PlayerIntent, ServerMessage, getHandSizes, redactState } from '../services/protocol';
+import { msg } from '../services/i18n';
+
+// --- Rooms ---
+// Each room has the table size its host picked, holds up to that many people and, once started, the one authoritative GameState.
+// Every change goes through applyAction, so the server runs exactly the rules the local game does,
+// including the mash roll. Bots, turn timeouts and disconnected players are driven by one timer per room,
+// against the same turn clock (services/clock.ts) a local table uses.
+
+const ROOM_IDLE_MS = 10 * 60 * 1000; // An empty room is kept this long so players can reconnect
+
+interface Seat {
+  name: string | null;
+  token: string | null;
+  socket: WebSocket | null;
+  lastMashAt: number;
+}
+
+interface Room {
+  id: string;
+  hostSeat: number;
+  rulePreset: RulePreset;
+  seats: Seat[];
+  game: GameState | null;
+  clock: TurnClock | null;
+  clockAt: number; // When time was last charged to the clock
+  timer: ReturnType<typeof setTimeout> | null;
+  timerKey: string | null; // The turn and who is acting for it, as of when the timer was armed
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface Membership {
+  room: Room;
+  seat: number;
+}
+
+const rooms = new Map<string, Room>();
+const members = new Map<WebSocket, Membership>();
+
+// --- Helpers ---
+
+const send = (socket: WebSocket | null, message: ServerMessage) => {
+  if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const createToken = () => randomBytes(16).toString('hex');
+
+// Four letters, skipping ones that are easy to misread when shared aloud
+const createRoomId = () => {
+  const letters = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+  let id: string;
+  do {
+    id = Array.from(randomBytes(4), b => letters[b % letters.length]).join('');
+  } while (rooms.has(id));
+  return id;
+};
+
+const emptySeat = (): Seat => ({ name: null, token: null, socket: null, lastMashAt: 0 });
+
+const lobbyOf = (room: Room): LobbySnapshot => ({
+  roomId: room.id,
+  hostSeat: room.hostSeat,
+  rulePreset: room.rulePreset,
+  seats: room.seats.map((s, seat) => ({ seat, name: s.name, connected: !!s.socket })),
+  started: !!room.game,
+});
+
+// What the active player has left right now, or null between games and after the last one
+const turnTimeLeftMs = (room: Room) =>
+  room.game && room.clock && isTurnPhase(room.game.phase)
+    ? Math.max(0, getRemainingMs(room.clock, room.game) - (Date.now() - room.clockAt))
+    : null;
+
+const broadcast = (room: Room) => {
+  const lobby = lobbyOf(room);
+  room.seats.forEach((seat, index) => {
+    send(seat.socket, { type: 'LOBBY', lobby });
+    if (!room.game) return;
+    const playerId = room.game.players[index].id;
+    send(seat.socket, {
+      type: 'SNAPSHOT',
+      game: redactState(room.game, playerId),
+      handSizes: getHandSizes(room.game),
+      turnTimeLeftMs: turnTimeLeftMs(room),
+    });
+  });
+};
+
+const reject = (socket: WebSocket, key: MessageKey) => send(socket, { type: 'ERROR', message: msg(key) });
+
+const membershipOf = (socket: WebSocket): Membership | null => {
+  const membership = members.get(socket) ?? null;
+  if (!membership) reject(socket, 'server.notInRoom');
+  return membership;
+};
+
+const attach = (socket: WebSocket, room: Room, seatIndex: number) => {
+  const seat = room.seats[seatIndex];
+  // A newer connection for the same seat replaces the old one
+  if (seat.socket && seat.socket !== socket) {
+    members.delete(seat.socket);
+    seat.socket.close();
+  }
+  seat.socket = socket;
+  members.set(socket, { room, seat: seatIndex });
+  if (room.idleTimer) clearTimeout(room.idleTimer);
+  room.idleTimer = null;
+  send(socket, { type: 'JOINED', roomId: room.id, seat: seatIndex, token: seat.token! });
+};
+
+const scheduleIdleCleanup = (room: Room) => {
+  if (room.seats.some(s => s.socket)) return;
+  room.idleTimer = setTimeout(() => {
+    if (room.timer) clearTimeout(room.timer);
+    rooms.delete(room.id);
+  }, ROOM_IDLE_MS);
+};
+
+// --- Game Loop ---
+
+// Time since the last action goes to whoever was on turn, before the action moves the game on
+const chargeClock = (room: Room) => {
+  const now = Date.now();
+  if (room.game && room.clock) room.clock = tickClock(room.clock, room.game, now - room.clockAt);
+  room.clockAt = now;
+};
+
+const dispatch = (room: Room, action: GameAction) => {
+  if (!room.game) return;
+  chargeClock(room);
+  const next = applyAction(room.game, action);
+  if (next === room.game) return;
+  room.game = next;
+  schedule(room);
+  broadcast(room);
+};
+
+// Arms the room timer for whoever has to act next: a bot thinks, a disconnected player is played
+// for quickly, and a connected player gets their turn clock before the engine's TIMEOUT kicks in.
+// Every seat is timed out once its clock runs out, bots included. A timer already running for the
+// same turn and the same kind of seat is left alone, so other seats' messages cannot hold a turn back.
+const schedule = (room: Room) => {
+  const game = room.game;
+  const index = game?.activePlayerIndex ?? -1;
+  const player = game?.players[index];
+  const seatKind = !player?.isHuman ? 'bot' : room.seats[index].socket ? 'present' : 'away';
+  const key = game && isTurnPhase(game.phase) ? `${getTurnKey(game)}:${seatKind}` : null;
+  if (room.timer && key === room.timerKey) return;
+
+  if (room.timer) clearTimeout(room.timer);
+  room.timer = null;
+  room.timerKey = key;
+  if (!game || !player || !room.clock || !isTurnPhase(game.phase)) return;
+  room.clock = syncClock(room.clock, game);
+  const remaining = getRemainingMs(room.clock, game);
+
+  const act = (type: 'BOT_TURN' | 'TIMEOUT', delay: number) => {
+    room.timer = setTimeout(() => {
+      room.timer = null;
+      dispatch(room, { type, playerId: player.id });
+      // A bot turn that changed nothing is retried until its clock runs out, so no seat can stall the room
+      if (!room.timer) schedule(room);
+    }, delay);
+  };
+  if (!player.isHuman) {
+    const { thinkMs } = resolveBotBehavior(player.bot);
+    if (thinkMs < remaining) act('BOT_TURN', thinkMs);
+    else act('TIMEOUT', remaining);
+  } else if (!room.seats[index].socket) {
+    act('TIMEOUT', Math.min(AI_DELAY_MS, remaining));
+  } else {
+    act('TIMEOUT', remaining);
+  }
+};
+
+// --- Commands ---
+
+export const createRoom = (socket: WebSocket, name: string, playerCount: number, rulePreset: RulePreset) => {
+  if (members.has(socket)) return reject(socket, 'server.alreadyInRoom');
+  const room: Room = {
+    id: createRoomId(),
+    hostSeat: 0,
+    rulePreset,
+    seats: Array.from({ length: playerCount }, emptySeat),
+    game: null,
+    clock: null,
+    clockAt: 0,
+    timer: null,
+    timerKey: null,
+    idleTimer: null,
+  };
+  room.seats[0] = { ...emptySeat(), name, token: createToken() };
+  rooms.set(room.id, room);
+  attach(socket, room, 0);
+  broadcast(room);
+};
+
+export const joinRoom = (socket: WebSocket, roomId: string, name: string) => {
+  if (members.has(socket)) return reject(socket, 'server.alreadyInRoom');
+  const room = rooms.get(roomId.toUpperCase());
+  if (!room) return reject(socket, 'server.noRoom');
+  if (room.game) return reject(socket, 'server.alreadyStarted');
+  const index = room.seats.findIndex(s => s.name === null);
+  if (index === -1) return reject(socket, 'server.roomFull');
+
+  room.seats[index] = { ...emptySeat(), name, token: createToken() };
+  attach(socket, room, index);
+  broadcast(room);
+};
+
+// Reconnect with the token handed out on join; the seat keeps its cards and medals
+export const resumeSeat = (socket: WebSocket, roomId: string, token: string) => {
+  const room = rooms.get(roomId.toUpperCase());
+  const index = room ? room.seats.findIndex(s => s.token === token) : -1;
+  if (!room || index === -1) return reject(socket, 'server.cannotResume');
+
+  attach(socket, room, index);
+  schedule(room);
+  broadcast(room);
+};
+
+export const startGame = (socket: WebSocket) => {
+  const membership = membershipOf(socket);
+  if (!membership) return;
+  const { room, seat } = membership;
+  if (seat !== room.hostSeat) return reject(socket, 'server.hostOnly');
+  if (room.game) return reject(socket, 'server.alreadyStarted');
+
+  // Open seats are filled with default bots
+  const humanSeats = room.seats.flatMap((s, i) => (s.name !== null ? [i] : []));
+  const names = Object.fromEntries(humanSeats.map(i => [i, room.seats[i].name!]));
+  room.game = createInitialState(undefined, {
+    playerCount: room.seats.length,
+    humanSeats,
+    names,
+    rules: RULE_PRESETS[room.rulePreset].rules,
+  });
+  room.clock = createClock(room.game);
+  room.clockAt = Date.now();
+  schedule(room);
+  broadcast(room);
+};
+
+export const submitIntent = (socket: WebSocket, intent: PlayerIntent) => {
+  const membership = membershipOf(socket);
+  if (!membership) return;
+  const { room, seat } = membership;
+  if (!room.game) return reject(socket, 'server.notStarted');
+
+  // The client runs the mash minigame, but the cooldown and the roll itself stay on the server
+  if (intent.type === 'MASH') {
+    const now = Date.now();
+    if (now - room.seats[seat].lastMashAt < MIN_MASH_COOLDOWN_MS) return;
+    room.seats[seat].lastMashAt = now;
+  }
+  dispatch(room, { ...intent, playerId: room.game.players[seat].id } as GameAction);
+};
+
+// Before the game a seat is given up; during it the player is treated as disconnected
+export const leaveRoom = (socket: WebSocket) => {
+  const membership = members.get(socket);
+  if (!membership) return;
+  const { room, seat } = membership;
+  members.delete(socket);
+
+  if (!room.game) {
+    room.seats[seat] = emptySeat();
+    const nextHost = room.seats.findIndex(s => s.name !== null);
+    if (nextHost === -1) {
+      rooms.delete(room.id);
+      return;
+    }
+    if (seat === room.hostSeat) room.hostSeat = nextHost;
+  } else {
+    room.seats[seat].socket = null;
+    if (room.game.phase !== GamePhase.GAME_END) schedule(room);
+  }
+  broadcast(room);
+  scheduleIdleCleanup(room);
+};
+
+export const disconnect = (socket: WebSocket) => {
+  const membership = members.get(socket);
+  if (!membership) return;
+  const { room, seat } = membership;
+  members.delete(socket);
+
+  // Until the game starts a dropped connection keeps its seat, so a refresh can resume it
+  room.seats[seat].socket = null;
+  if (room.game) schedule(room);
+  else if (seat === room.hostSeat) {
+    const nextHost = room.seats.findIndex(s => s.socket);
+    if (nextHost !== -1) room.hostSeat = nextHost;
+  }
+  broadcast(room);
+  scheduleIdleCleanup(room);
+};
@@ -0,0 +1,14 @@
+import { ON_OFF_FORMAT, createPreference } from './preferences';
+
+// --- Accessibility ---
+// High-contrast mode marks every card with its resource's pattern and letter badge, so resources can
+// be told apart without relying on color. Like the language, it is one choice for the whole app,
+// remembered in the browser.
+
+const CONTRAST_KEY = 'endgame-resource-battle:contrast';
+
+const contrastPreference = createPreference(CONTRAST_KEY, false, ON_OFF_FORMAT);
+
+export const getHighContrast = contrastPreference.get;
+export const setHighContrast = contrastPreference.set;
+export const subscribeHighContrast = contrastPreference.subscribe;
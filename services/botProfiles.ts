@@ -0,0 +1,54 @@
+import { BotBehavior, BotSettings, Card, Player, PlayedSet, RoundRequirement, RuleSet } from '../types';
+import { BOT_DIFFICULTY_CONFIG, BOT_PERSONALITY_CONFIG, DEFAULT_BOT_SETTINGS, DEFAULT_RULES } from '../constants';
+import { getCheapestMove, getLegalMoves, hasLegalMove } from './moveGenerator';
+import { Rng } from './rng';
+import { isBomb } from './rules';
+import { msg, t } from './i18n';
+
+// --- Bot Profiles ---
+// Difficulty decides how a bot thinks (search or greedy, deliberate passes, think time);
+// personality decides its taste (which legal play, which rules as dealer, how often it cheats).
+
+export const resolveBotBehavior = (settings: BotSettings = DEFAULT_BOT_SETTINGS): BotBehavior => {
+  const difficulty = BOT_DIFFICULTY_CONFIG[settings.difficulty];
+  const personality = BOT_PERSONALITY_CONFIG[settings.personality];
+  return {
+    strategy: difficulty.strategy,
+    movePreference: personality.movePreference,
+    holdLevel: personality.holdLevel,
+    passChance: difficulty.passChance,
+    dealerStyle: personality.dealerStyle ?? difficulty.dealerStyle,
+    cheatChance: personality.cheatChance,
+    challengeChance: personality.challengeChance,
+    thinkMs: difficulty.thinkMs,
+  };
+};
+
+export const formatBotProfile = (settings: BotSettings = DEFAULT_BOT_SETTINGS) =>
+  t('bot.profile', { difficulty: msg(`difficulty.${settings.difficulty}.label`), personality: msg(`personality.${settings.personality}.label`) });
+
+// Greedy move choice shaped by the behavior; null means pass
+export const getBotMove = (
+  player: Player,
+  lastPlayed: PlayedSet | null,
+  req: RoundRequirement,
+  behavior: BotBehavior,
+  rng: Rng,
+  rules: RuleSet = DEFAULT_RULES
+): Card[] | null => {
+  // The opener must play, so only answers can be skipped on purpose or held back
+  let hand = player.hand;
+  if (lastPlayed) {
+    if (!hasLegalMove(hand, lastPlayed, req, rules)) return null;
+    if (behavior.passChance > 0 && rng.next() < behavior.passChance) return null;
+    if (behavior.holdLevel !== null) hand = hand.filter(c => c.level < behavior.holdLevel!);
+  }
+
+  if (behavior.movePreference === 'STRONGEST') {
+    // Bombs come last in the list; keep them for when nothing else beats the table
+    const moves = getLegalMoves(hand, lastPlayed, req, rules);
+    const regular = moves.filter(m => !isBomb(m));
+    return (regular.length > 0 ? regular[regular.length - 1] : moves[0]) ?? null;
+  }
+  return getCheapestMove(hand, lastPlayed, req, rules);
+};
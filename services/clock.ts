@@ -0,0 +1,64 @@
+import { GamePhase, GameState } from '../types';
+import { isTurnPhase } from './engine';
+
+// --- Turn Clock ---
+// Every seat plays against the clock, bots included. A turn has its own allowance, set separately
+// for choosing the requirement and for the round; once it is spent the player's time bank drains,
+// chess-clock style, and an empty bank times the turn out. The clock is kept beside the game rather
+// than in it, since the engine never reads the time: it only sees the TIMEOUT action sent when the
+// clock runs out. Local tables tick it in the browser, online rooms on the server.
+
+export interface TurnClock {
+  turnKey: string | null; // The turn the allowance belongs to
+  turnMs: number; // Left of the current turn's own allowance
+  banks: Record<string, number>; // Player id -> bank left, in ms
+  paused: boolean;
+}
+
+// A new turn starts whenever the active seat, the table or the round changes. A mash does not, and
+// neither does a declaration: announcing the requirement and opening are one turn of the same leader.
+export const getTurnKey = (game: GameState) =>
+  `${game.roundNumber}:${game.tableStack.length}:${game.activePlayerIndex}`;
+
+export const getTurnLimitMs = (game: GameState) =>
+  (game.phase === GamePhase.DEALER_SELECTION ? game.rules.clock.dealerSeconds : game.rules.clock.playSeconds) * 1000;
+
+export const createClock = (game: GameState): TurnClock => syncClock({
+  turnKey: null,
+  turnMs: 0,
+  banks: Object.fromEntries(game.players.map(p => [p.id, game.rules.clock.bankSeconds * 1000])),
+  paused: false,
+}, game);
+
+// Starts a fresh allowance once the game has moved on to another turn; the same turn keeps its time
+export const syncClock = (clock: TurnClock, game: GameState): TurnClock => {
+  if (!isTurnPhase(game.phase)) return clock;
+  const turnKey = getTurnKey(game);
+  return turnKey === clock.turnKey ? clock : { ...clock, turnKey, turnMs: getTurnLimitMs(game) };
+};
+
+// Spends time on the active player: the turn's allowance first, then their bank
+export const tickClock = (clock: TurnClock, game: GameState, elapsedMs: number): TurnClock => {
+  if (clock.paused || !isTurnPhase(game.phase) || elapsedMs <= 0) return clock;
+  const fromTurn = Math.min(clock.turnMs, elapsedMs);
+  const fromBank = elapsedMs - fromTurn;
+  const playerId = game.players[game.activePlayerIndex].id;
+  return {
+    ...clock,
+    turnMs: clock.turnMs - fromTurn,
+    banks: fromBank > 0 ? { ...clock.banks, [playerId]: Math.max(0, (clock.banks[playerId] ?? 0) - fromBank) } : clock.banks,
+  };
+};
+
+export const getBankMs = (clock: TurnClock, playerId: string) => clock.banks[playerId] ?? 0;
+
+// Everything the active player has left, allowance and bank together
+export const getRemainingMs = (clock: TurnClock, game: GameState) =>
+  clock.turnMs + getBankMs(clock, game.players[game.activePlayerIndex].id);
+
+export const isOutOfTime = (clock: TurnClock, game: GameState) =>
+  isTurnPhase(game.phase) && !clock.paused && getRemainingMs(clock, game) <= 0;
+
+export const setClockPaused = (clock: TurnClock, paused: boolean): TurnClock => ({ ...clock, paused });
+
+export const toSeconds = (ms: number) => Math.ceil(ms / 1000);
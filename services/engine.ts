@@ -0,0 +1,525 @@
+import {
+  Card, Player, GamePhase, RoundRequirement, RequirementType, ResourceType, PlayedSet, LogEntry,
+  GameState, GameAction, GameEvent, GameOptions, Message
+} from '../types';
+import {
+  createPlayers, calculateHandValue, validateMove,
+  getAIDealerRequirement, inferRequirement, describeRequirement, canOpenRound
+} from './gameLogic';
+import { DEFAULT_SEARCH_BUDGET, DEFAULT_RULES, CHEAT_CAUTION, MASH_LIMIT_PER_ROUND, MAX_BOT_GAME_ACTIONS } from '../constants';
+import { Rng, createRng, randomSeed } from './rng';
+import { searchDecision } from './search';
+import { getBotMove, resolveBotBehavior } from './botProfiles';
+import { getCheapestMove } from './moveGenerator';
+import { getMashesLeft, mashCard } from './mash';
+import { scoreGame } from './scoring';
+import { msg } from './i18n';
+import { describeCountRange, getRoundLeader, isRequirementCountAllowed, sumLevels } from './rules';
+
+// --- State Helpers ---
+
+export const isTurnPhase = (phase: GamePhase) => phase === GamePhase.PLAYING || phase === GamePhase.DEALER_SELECTION;
+
+export const getLastPlayed = (state: GameState): PlayedSet | null =>
+  state.tableStack.length > 0 ? state.tableStack[state.tableStack.length - 1] : null;
+
+// Log ids are sequential so they never consume randomness
+const addLog = (state: GameState, message: Message, type: LogEntry['type'] = 'info'): GameState => ({
+  ...state,
+  logs: [...state.logs, { id: `log-${state.logs.length}`, message, type }],
+});
+
+// Events carry their own round number; callers pass everything else
+type EventPayload<E = GameEvent> = E extends GameEvent ? Omit<E, 'round'> : never;
+
+const addEvent = (state: GameState, event: EventPayload): GameState => ({
+  ...state,
+  events: [...state.events, { ...event, round: state.roundNumber } as GameEvent],
+});
+
+const updatePlayer = (state: GameState, index: number, patch: Partial<Player>): GameState => ({
+  ...state,
+  players: state.players.map((p, i) => (i === index ? { ...p, ...patch } : p)),
+});
+
+// --- Setup ---
+
+export const DEFAULT_OPTIONS: GameOptions = { humanSeats: [0] };
+
+export const createInitialState = (seed: number = randomSeed(), options: GameOptions = DEFAULT_OPTIONS): GameState => {
+  const rng = createRng(seed);
+  const players = createPlayers(rng, options);
+
+  // Determine Initial Dealer (Highest total points, unless a match rotates it)
+  let maxPoints = -1;
+  let startIdx = 0;
+  players.forEach((p, idx) => {
+    const val = calculateHandValue(p.hand);
+    if (val > maxPoints) {
+      maxPoints = val;
+      startIdx = idx;
+    }
+  });
+  const rotated = options.dealerSeat !== undefined && options.dealerSeat < players.length;
+  if (rotated) startIdx = options.dealerSeat!;
+
+  let state: GameState = {
+    players,
+    phase: GamePhase.DEALER_SELECTION,
+    dealerIndex: startIdx,
+    activePlayerIndex: startIdx,
+    roundRequirement: null,
+    tableStack: [],
+    roundNumber: 1,
+    logs: [],
+    events: [],
+    winnerId: null,
+    rules: options.rules ?? DEFAULT_RULES,
+    mashedThisRound: {},
+    mashesThisRound: {},
+    noticedMashers: [],
+    challengeOpen: false,
+    seed,
+    rngState: rng.getState(),
+    practice: options.practice ?? false,
+    undoUsed: false,
+  };
+  state = addEvent(state, {
+    type: 'DEAL',
+    dealerId: players[startIdx].id,
+    hands: Object.fromEntries(players.map(p => [p.id, p.hand])),
+  });
+  state = addLog(state, msg('log.dealt'), 'info');
+  return addLog(state, msg(rotated ? 'log.firstDealerRotated' : 'log.firstDealerRichest', { name: players[startIdx].name }), 'action');
+};
+
+// The same table again: seats, names, bot and player profiles and rules of an existing game
+export const getRematchOptions = (state: GameState): GameOptions => ({
+  playerCount: state.players.length,
+  humanSeats: state.players.flatMap((p, i) => (p.isHuman ? [i] : [])),
+  bots: Object.fromEntries(state.players.flatMap((p, i) => (p.bot ? [[i, p.bot]] : []))),
+  names: Object.fromEntries(state.players.map((p, i) => [i, p.name])),
+  profiles: Object.fromEntries(state.players.flatMap((p, i) => (p.profileId ? [[i, p.profileId]] : []))),
+  rules: state.rules,
+  practice: state.practice,
+});
+
+// --- Turn Flow ---
+
+const endRound = (state: GameState, winnerId: string): GameState => {
+  const winnerIdx = state.players.findIndex(p => p.id === winnerId);
+  const winnerName = state.players[winnerIdx]?.name ?? msg('log.unknownPlayer');
+  let next = addLog(state, msg('log.roundEnd', { round: state.roundNumber, name: winnerName }), 'success');
+  next = addEvent(next, { type: 'ROUND_END', winnerId });
+
+  next = {
+    ...next,
+    players: next.players.map(p => ({
+      ...p,
+      medals: p.id === winnerId ? p.medals + 1 : p.medals,
+      passedThisRound: false,
+    })),
+    dealerIndex: winnerIdx,
+    activePlayerIndex: winnerIdx,
+    roundNumber: state.roundNumber + 1,
+    phase: GamePhase.DEALER_SELECTION,
+    roundRequirement: null,
+    tableStack: [],
+    mashedThisRound: {},
+    mashesThisRound: {},
+    noticedMashers: [],
+    challengeOpen: false,
+  };
+
+  // House rules can end the game before anyone runs out of cards
+  const { medalTarget, roundLimit } = next.rules.gameEnd;
+  if (medalTarget !== null && next.players.some(p => p.medals >= medalTarget)) return endGame(next);
+  if (roundLimit !== null && state.roundNumber >= roundLimit) return endGame(next);
+  return next;
+};
+
+// The winner is whoever tops the final scoring, not necessarily the player who went out
+const endGame = (state: GameState): GameState => {
+  const [first] = scoreGame(state);
+  let next = addLog(state, msg('log.gameEnd', { name: first.player.name, score: first.total }), 'success');
+  next = addEvent(next, { type: 'GAME_END', winnerId: first.player.id });
+  return { ...next, phase: GamePhase.GAME_END, winnerId: first.player.id };
+};
+
+// Moves to the next seat that may act (passed seats are skipped when passing locks them out).
+// Reaching the round leader ends the round in their favour.
+const advanceTurn = (state: GameState): GameState => {
+  const total = state.players.length;
+  const leader = getRoundLeader(state.tableStack, state.rules);
+  let nextIndex = (state.activePlayerIndex + 1) % total;
+
+  for (let i = 0; i < total; i++) {
+    const p = state.players[nextIndex];
+
+    if (leader && p.id === leader.playerId) {
+      return endRound(state, p.id);
+    }
+
+    if (!p.passedThisRound || !state.rules.passLocksOut) {
+      return { ...state, activePlayerIndex: nextIndex };
+    }
+
+    nextIndex = (nextIndex + 1) % total;
+  }
+
+  if (leader) return endRound(state, leader.playerId);
+  return { ...state, activePlayerIndex: (state.activePlayerIndex + 1) % total };
+};
+
+// `source` notes a rule the player did not pick themselves, e.g. one chosen on a timeout
+const openRound = (state: GameState, req: RoundRequirement, source?: Message): GameState => {
+  const dealer = state.players[state.activePlayerIndex];
+  const requirement = describeRequirement(req);
+  let next = addLog(
+    state,
+    source ? msg('log.requirementBy', { name: dealer.name, source, requirement }) : msg('log.requirement', { name: dealer.name, requirement }),
+    'alert'
+  );
+  next = addEvent(next, { type: 'REQUIREMENT', playerId: dealer.id, requirement: req });
+  return {
+    ...next,
+    roundRequirement: req,
+    phase: GamePhase.PLAYING,
+    tableStack: [],
+    players: next.players.map(p => ({ ...p, passedThisRound: false })),
+  };
+};
+
+const commitPlay = (state: GameState, cards: Card[]): GameState => {
+  const idx = state.activePlayerIndex;
+  const player = state.players[idx];
+  const cardIds = cards.map(c => c.id);
+  const newHand = player.hand.filter(c => !cardIds.includes(c.id));
+
+  let next = updatePlayer(state, idx, { hand: newHand });
+  next = {
+    ...next,
+    // The PLAY event recorded below lands at this index
+    tableStack: [...next.tableStack, { playerId: player.id, cards, timestamp: next.events.length }],
+    challengeOpen: true,
+  };
+  // Without lock-out a new play is a fresh challenge, so earlier passes no longer count
+  if (!next.rules.passLocksOut) {
+    next = { ...next, players: next.players.map(p => ({ ...p, passedThisRound: false })) };
+  }
+  next = addLog(next, msg('log.played', { name: player.name, count: cards.length }), 'action');
+  next = addEvent(next, { type: 'PLAY', playerId: player.id, cards });
+
+  if (newHand.length === 0) return endGame(next);
+  return advanceTurn(next);
+};
+
+// Fallback opening: the smallest card in hand as a single fixed play. When the rules demand more
+// cards per round, the cheapest play of the smallest allowed count instead (single type first);
+// a hand that cannot make any such play still opens with its smallest card.
+const openWithSmallestCard = (state: GameState, source: Message): GameState => {
+  const player = state.players[state.activePlayerIndex];
+  const smallestCard = [...player.hand].sort((a, b) => a.level - b.level)[0];
+  if (!smallestCard) return state;
+
+  const count = Math.min(state.rules.minRequirementCount, player.hand.length);
+  if (count > 1) {
+    const options: RoundRequirement[] = [
+      ...Object.values(ResourceType).map(type => ({ type: RequirementType.SINGLE_FIXED, resourceType: type, count })),
+      { type: RequirementType.MIXED_ASC, count },
+    ];
+    let best: { req: RoundRequirement; cards: Card[] } | null = null;
+    for (const req of options) {
+      const cards = getCheapestMove(player.hand, null, req, state.rules);
+      if (cards && (!best || sumLevels(cards) < sumLevels(best.cards))) best = { req, cards };
+    }
+    const declared = best && tryDeclare(state, best.req, source);
+    if (best && declared) return commitPlay(declared, best.cards);
+  }
+
+  // Outside the rule set's limits, so this one skips the declaration checks
+  const req: RoundRequirement = { type: RequirementType.SINGLE_FIXED, resourceType: smallestCard.type, count: 1 };
+  return commitPlay(openRound(state, req, source), [smallestCard]);
+};
+
+// --- Action Handlers ---
+
+const play = (state: GameState, cardIds: string[]): GameState => {
+  const player = state.players[state.activePlayerIndex];
+  const cards = cardIds
+    .map(id => player.hand.find(c => c.id === id))
+    .filter((c): c is Card => !!c);
+
+  if (cards.length === 0 || cards.length !== cardIds.length) {
+    return addLog(state, msg('log.notInHand'), 'alert');
+  }
+
+  // Dealer Mode: Infer Rules (under declared openings the requirement has to be announced first)
+  if (state.phase === GamePhase.DEALER_SELECTION) {
+    if (state.rules.opening === 'DECLARE') return addLog(state, msg('log.declareFirst'), 'alert');
+    const inferredReq = inferRequirement(cards);
+    if (!inferredReq) {
+      return addLog(state, msg('log.cannotInfer'), 'alert');
+    }
+    if (!isRequirementCountAllowed(cards.length, state.rules)) {
+      return addLog(state, msg('log.countRange', { range: describeCountRange(state.rules) }), 'alert');
+    }
+    return commitPlay(openRound(state, inferredReq), cards);
+  }
+
+  const validation = validateMove(cards, getLastPlayed(state), state.roundRequirement, state.rules);
+  if (!validation.valid) {
+    return addLog(state, msg('log.invalidPlay', { reason: validation.reason! }), 'alert');
+  }
+  return commitPlay(state, cards);
+};
+
+const pass = (state: GameState): GameState => {
+  if (state.phase === GamePhase.DEALER_SELECTION || state.tableStack.length === 0) {
+    return addLog(state, msg('log.leaderMustPlay'), 'alert');
+  }
+  const idx = state.activePlayerIndex;
+  let next = addLog(updatePlayer(state, idx, { passedThisRound: true }), msg('log.passed', { name: state.players[idx].name }), 'info');
+  next = addEvent(next, { type: 'PASS', playerId: state.players[idx].id });
+  return advanceTurn(next);
+};
+
+// Announces the round's requirement; the dealer then makes the opening play under it. Bots open
+// every round this way, whatever the rule set; people do when it uses declared openings.
+const declareRequirement = (state: GameState, req: RoundRequirement, source?: Message): GameState => {
+  if (state.phase !== GamePhase.DEALER_SELECTION) return state;
+  if (!isRequirementCountAllowed(req.count, state.rules)) {
+    return addLog(state, msg('log.countRange', { range: describeCountRange(state.rules) }), 'alert');
+  }
+  // A requirement the dealer cannot open would leave them stuck with an empty table
+  if (!canOpenRound(state.players[state.activePlayerIndex].hand, req, state.rules)) {
+    return addLog(state, msg('log.cannotDeclare'), 'alert');
+  }
+  return openRound(state, req, source);
+};
+
+// The state after a successful declaration, or null when the rules turned it down
+const tryDeclare = (state: GameState, req: RoundRequirement, source?: Message): GameState | null => {
+  const declared = declareRequirement(state, req, source);
+  return declared.phase === GamePhase.PLAYING && declared.roundRequirement ? declared : null;
+};
+
+// A bot's opening: its cards only go down once the requirement is in place; if the requirement is
+// rejected it falls back to the forced opening instead
+const declareAndOpen = (state: GameState, req: RoundRequirement, cards: Card[], source: Message): GameState => {
+  const declared = tryDeclare(state, req, source);
+  return declared ? commitPlay(declared, cards) : openWithSmallestCard(state, source);
+};
+
+const mash = (state: GameState, rng: Rng, cardId: string): GameState => {
+  const idx = state.activePlayerIndex;
+  const player = state.players[idx];
+  const card = player.hand.find(c => c.id === cardId);
+  if (!card) return state;
+  if (getMashesLeft(state, player.id) === 0) {
+    return addLog(state, msg('log.mashLimit', { limit: MASH_LIMIT_PER_ROUND }), 'alert');
+  }
+
+  const newCard = mashCard(card, rng, state.rules);
+  let next = updatePlayer(state, idx, { hand: player.hand.map(c => (c.id === card.id ? newCard : c)) });
+  next = addEvent(next, { type: 'MASH', playerId: player.id, cardId: card.id, before: card.level, after: newCard.level });
+  next = {
+    ...next,
+    mashedThisRound: { [card.id]: card.level, ...next.mashedThisRound },
+    mashesThisRound: { ...next.mashesThisRound, [player.id]: (next.mashesThisRound[player.id] ?? 0) + 1 },
+  };
+  const diff = newCard.level - card.level;
+
+  // Whenever a log line gives the masher away, the whole table has seen it
+  const noticed = (s: GameState): GameState =>
+    s.noticedMashers.includes(player.id) ? s : { ...s, noticedMashers: [...s.noticedMashers, player.id] };
+
+  if (!player.isHuman) {
+    // Bots only give themselves away when the cheat pays off
+    return diff > 0 ? noticed(addLog(next, msg('log.mashNoticed', { name: player.name }), 'alert')) : next;
+  }
+  next = noticed(next);
+  if (diff > 0) return addLog(next, msg('log.mashUp', { name: player.name }), 'success');
+  if (diff < 0) return addLog(next, msg('log.mashDown', { name: player.name }), 'alert');
+  return addLog(next, msg('log.mashSame', { name: player.name }), 'info');
+};
+
+// Any player but its author may challenge the last play until the next action by anyone (see applyAction).
+// A caught cheater takes the play back at its pre-mash levels, loses a medal and sits out the round;
+// a wrong accusation costs the challenger the medal and the rest of the round instead.
+const challenge = (state: GameState, challengerIdx: number): GameState => {
+  const target = getLastPlayed(state);
+  const challenger = state.players[challengerIdx];
+  if (state.phase !== GamePhase.PLAYING || !state.challengeOpen || !target) {
+    return addLog(state, msg('log.nothingToChallenge'), 'alert');
+  }
+  if (target.playerId === challenger.id) return addLog(state, msg('log.challengeSelf'), 'alert');
+
+  const targetIdx = state.players.findIndex(p => p.id === target.playerId);
+  const cheater = state.players[targetIdx];
+  const caught = target.cards.some(c => c.id in state.mashedThisRound);
+  let next: GameState = { ...state, challengeOpen: false };
+
+  if (!caught) {
+    const medalLost = challenger.medals > 0;
+    next = updatePlayer(next, challengerIdx, { medals: challenger.medals - (medalLost ? 1 : 0), passedThisRound: true });
+    const names = { challenger: challenger.name, target: cheater.name };
+    next = addLog(next, msg(medalLost ? 'log.challengeFailedMedal' : 'log.challengeFailed', names), 'alert');
+    next = addEvent(next, { type: 'CHALLENGE', challengerId: challenger.id, targetId: cheater.id, caught, restored: [], medalLost });
+    return challengerIdx === next.activePlayerIndex ? advanceTurn(next) : next;
+  }
+
+  const restored = target.cards.map(c => (c.id in state.mashedThisRound ? { ...c, level: state.mashedThisRound[c.id] } : c));
+  const medalLost = cheater.medals > 0;
+  next = updatePlayer(next, targetIdx, {
+    hand: [...cheater.hand, ...restored],
+    medals: cheater.medals - (medalLost ? 1 : 0),
+    passedThisRound: true,
+  });
+  next = {
+    ...next,
+    tableStack: next.tableStack.slice(0, -1),
+    mashedThisRound: Object.fromEntries(
+      Object.entries(next.mashedThisRound).filter(([id]) => !restored.some(c => c.id === id))
+    ),
+  };
+  const names = { challenger: challenger.name, target: cheater.name };
+  next = addLog(next, msg(medalLost ? 'log.challengeCaughtMedal' : 'log.challengeCaught', names), 'success');
+  next = addEvent(next, { type: 'CHALLENGE', challengerId: challenger.id, targetId: cheater.id, caught, restored, medalLost });
+
+  // The lead falls back to the play before; if that is the active player's, everyone else has already answered it.
+  // With nothing left on the table the active player leads under the same requirement.
+  const leader = getRoundLeader(next.tableStack, next.rules);
+  if (leader && leader.playerId === next.players[next.activePlayerIndex].id) return endRound(next, leader.playerId);
+  return next;
+};
+
+// Acts for any seat whose clock ran out, the way the rule set's clock says. Leading an empty
+// table cannot be passed or conceded, so that is always the cheapest opening.
+const timeout = (state: GameState): GameState => {
+  const player = state.players[state.activePlayerIndex];
+  let next = addLog(state, msg('log.timeout'), 'alert');
+  next = addEvent(next, { type: 'TIMEOUT', playerId: player.id });
+
+  if (next.phase === GamePhase.DEALER_SELECTION || !next.roundRequirement) {
+    return openWithSmallestCard(next, msg('requirementSource.timeout'));
+  }
+
+  const cheapest = getCheapestMove(player.hand, getLastPlayed(next), next.roundRequirement, next.rules);
+  if (next.tableStack.length === 0) {
+    return cheapest ? commitPlay(next, cheapest) : openWithSmallestCard(next, msg('requirementSource.timeout'));
+  }
+
+  switch (next.rules.clock.onTimeout) {
+    case 'AUTO_PASS':
+      return pass(next);
+    case 'FORFEIT_ROUND': {
+      const leader = getRoundLeader(next.tableStack, next.rules)!;
+      return endRound(addLog(next, msg('log.forfeit', { name: player.name }), 'alert'), leader.playerId);
+    }
+    default:
+      return cheapest ? commitPlay(next, cheapest) : pass(next);
+  }
+};
+
+const botTurn = (state: GameState, rng: Rng): GameState => {
+  let next = state;
+  const idx = state.activePlayerIndex;
+  const behavior = resolveBotBehavior(state.players[idx].bot);
+
+  // Bot Challenge Logic: only plays by players seen mashing this round are worth the risk
+  const suspect = getLastPlayed(state);
+  if (
+    state.challengeOpen && suspect && suspect.playerId !== state.players[idx].id &&
+    state.noticedMashers.includes(suspect.playerId) && rng.next() < behavior.challengeChance
+  ) {
+    next = challenge(next, idx);
+    if (next.roundNumber !== state.roundNumber || next.activePlayerIndex !== idx) return next;
+  }
+
+  // Bot Cheating Logic: with a medal at stake a caught cheat costs more, so cheat less
+  const hand = next.players[idx].hand;
+  const cheatChance = next.players[idx].medals > 0 ? behavior.cheatChance * CHEAT_CAUTION : behavior.cheatChance;
+  if (getMashesLeft(next, next.players[idx].id) > 0 && rng.next() < cheatChance && hand.length > 0) {
+    const cardIdx = rng.int(0, hand.length - 1);
+    next = mash(next, rng, hand[cardIdx].id);
+  }
+
+  const bot = next.players[idx];
+
+  if (behavior.strategy === 'SEARCH') {
+    const decision = searchDecision(next, rng, bot.bot?.budget ?? DEFAULT_SEARCH_BUDGET);
+    if (decision?.type === 'PASS') return pass(next);
+    if (decision?.requirement) return declareAndOpen(next, decision.requirement, decision.cards, msg('requirementSource.bot'));
+    if (decision) return commitPlay(next, decision.cards);
+    // No candidates at all: fall through to the greedy logic below
+  }
+
+  if (next.phase === GamePhase.DEALER_SELECTION) {
+    const aiReq = getAIDealerRequirement(bot, rng, behavior.dealerStyle, next.rules);
+    const move = getBotMove(bot, null, aiReq, behavior, rng, next.rules);
+    // The chosen rule can be unplayable (e.g. ascending with duplicate levels); fall back to a single card
+    if (!move) return openWithSmallestCard(next, msg('requirementSource.bot'));
+    return declareAndOpen(next, aiReq, move, msg('requirementSource.bot'));
+  }
+
+  if (!next.roundRequirement) return next;
+  const lastMove = getLastPlayed(next);
+  const move = getBotMove(bot, lastMove, next.roundRequirement, behavior, rng, next.rules);
+  if (move) return commitPlay(next, move);
+  if (!lastMove) return openWithSmallestCard(next, msg('requirementSource.bot'));
+  return pass(next);
+};
+
+// --- Reducer ---
+
+// Lets the bots finish the game on their own; a human seat would stall it, so the cap stops the loop
+export const playOutBots = (state: GameState, maxActions: number = MAX_BOT_GAME_ACTIONS): GameState => {
+  let current = state;
+  for (let i = 0; i < maxActions && isTurnPhase(current.phase); i++) {
+    const active = current.players[current.activePlayerIndex];
+    current = applyAction(current, { type: 'BOT_TURN', playerId: active.id });
+  }
+  return current;
+};
+
+export const applyAction = (state: GameState, action: GameAction): GameState => {
+  if (!isTurnPhase(state.phase)) return state;
+
+  // A challenge may come from any seat, not just the one whose turn it is
+  if (action.type === 'CHALLENGE') {
+    const challengerIdx = state.players.findIndex(p => p.id === action.playerId);
+    return challengerIdx === -1 ? state : challenge(state, challengerIdx);
+  }
+
+  const active = state.players[state.activePlayerIndex];
+  if (!active || active.id !== action.playerId) return state;
+
+  // Randomness is replayed from the state, so the same state and action always give the same result
+  const rng = createRng(state.rngState);
+  const next = reduce(state, rng, action, active);
+  if (next === state) return state;
+  // The window to challenge a play closes with the next action; only a new play opens another one.
+  // A bot weighs its challenge at the start of its turn, so it still sees the window open.
+  const played = next.events.slice(state.events.length).some(e => e.type === 'PLAY');
+  return { ...next, challengeOpen: next.challengeOpen && played, rngState: rng.getState() };
+};
+
+const reduce = (state: GameState, rng: Rng, action: GameAction, active: Player): GameState => {
+  switch (action.type) {
+    case 'PLAY':
+      return play(state, action.cardIds);
+    case 'PASS':
+      return pass(state);
+    case 'DECLARE_REQUIREMENT':
+      return declareRequirement(state, action.requirement);
+    case 'MASH':
+      return mash(state, rng, action.cardId);
+    case 'TIMEOUT':
+      return timeout(state);
+    case 'BOT_TURN':
+      return active.isHuman ? state : botTurn(state, rng);
+    default:
+      return state;
+  }
+};
@@ -1,36 +1,50 @@
-import { Card, Player, ResourceType, RoundRequirement, RequirementType, PlayedSet } from '../types';
-import { RESOURCE_CONFIG, MASH_PROBABILITIES } from '../constants';
+import { Card, Player, ResourceType, RoundRequirement, RequirementType, PlayedSet, DealerStyle, GameOptions, RuleSet, Message } from '../types';
+import { RESOURCE_CONFIG, DEFAULT_BOT_SETTINGS, DEAL_SCALE, DEFAULT_PLAYER_COUNT, DEFAULT_RULES, BOMB_SIZE } from '../constants';
+import { Rng } from './rng';
+import { getCheapestMove } from './moveGenerator';
+import { beatsLastPlay, clampRequirementCount, isBomb, isRequirementCountAllowed, minimumSum, sumLevels } from './rules';
+import { msg, t } from './i18n';
 
 // --- Generation Helpers ---
 
-export const generateId = () => Math.random().toString(36).substr(2, 9);
+export const generateId = (rng: Rng) => rng.next().toString(36).substr(2, 9);
 
-const getRandomInt = (min: number, max: number) => Math.floor(Math.random() * (max - min + 1)) + min;
-
-export const generateHand = (): Card[] => {
+// `scale` stretches the per-type card counts for the table size (see DEAL_SCALE)
+export const generateHand = (rng: Rng, scale: number = 1, rules: RuleSet = DEFAULT_RULES): Card[] => {
   let hand: Card[] = [];
   Object.values(ResourceType).forEach((type) => {
     const config = RESOURCE_CONFIG[type];
-    const count = getRandomInt(config.min, config.max);
+    const count = rng.int(Math.round(config.min * scale), Math.round(config.max * scale));
     for (let i = 0; i < count; i++) {
       hand.push({
-        id: generateId(),
+        id: generateId(rng),
         type,
-        level: getRandomInt(1, 7), // Level 1-7
+        level: rng.int(rules.minLevel, rules.maxLevel),
       });
     }
   });
   return hand.sort((a, b) => (a.type === b.type ? a.level - b.level : a.type.localeCompare(b.type)));
 };
 
-export const createPlayers = (): Player[] => {
-  return Array.from({ length: 4 }).map((_, i) => ({
+// Default name for a seat, in the language active when the game is set up; "(you)" only makes
+// sense when a single person is at the table
+export const getSeatName = (seat: number, humanSeats: number[]) =>
+  !humanSeats.includes(seat)
+    ? t('seat.bot', { seat })
+    : t(humanSeats.length === 1 ? 'seat.you' : 'seat.human', { seat: seat + 1 });
+
+export const createPlayers = (rng: Rng, options: GameOptions): Player[] => {
+  const { humanSeats, bots = {}, names = {}, profiles = {}, playerCount = DEFAULT_PLAYER_COUNT, rules = DEFAULT_RULES } = options;
+  const scale = DEAL_SCALE[playerCount] ?? 1;
+  return Array.from({ length: playerCount }).map((_, i) => ({
     id: `P${i + 1}`,
-    name: i === 0 ? '玩家 1 (你)' : `电脑 ${i}`,
-    isHuman: i === 0,
-    hand: generateHand(),
+    name: names[i] ?? getSeatName(i, humanSeats),
+    isHuman: humanSeats.includes(i),
+    hand: generateHand(rng, scale, rules),
     medals: 0,
     passedThisRound: false,
+    bot: humanSeats.includes(i) ? undefined : (bots[i] ?? DEFAULT_BOT_SETTINGS),
+    profileId: humanSeats.includes(i) ? profiles[i] : undefined,
   }));
 };
 
@@ -38,81 +52,145 @@ export const createPlayers = (): Player[] => {
 
 export const calculateHandValue = (hand: Card[]) => hand.reduce((sum, c) => sum + c.level, 0);
 
+// Levels sorted low to high, grouped into [level, how many] pairs
+const countLevels = (cards: Card[]) => {
+  const counts = new Map<number, number>();
+  cards.forEach(c => counts.set(c.level, (counts.get(c.level) ?? 0) + 1));
+  return Array.from(counts.entries()).sort((a, b) => a[0] - b[0]);
+};
+
+const isStrictlyAscending = (cards: Card[]) => countLevels(cards).every(([, n]) => n === 1);
+
+const isSameLevel = (cards: Card[]) => cards.every(c => c.level === cards[0].level);
+
+// Each card exactly one level above the previous one
+const isRun = (cards: Card[]) => {
+  const levels = countLevels(cards);
+  return levels.every(([level, n], i) => n === 1 && (i === 0 || level === levels[i - 1][0] + 1));
+};
+
+// Two cards of each level, at least two different levels
+const isPairs = (cards: Card[]) => {
+  const levels = countLevels(cards);
+  return levels.length >= 2 && levels.every(([, n]) => n === 2);
+};
+
 export const validateMove = (
   selectedCards: Card[],
   lastPlayed: PlayedSet | null,
-  req: RoundRequirement | null
-): { valid: boolean; reason?: string } => {
-  if (!req) return { valid: false, reason: "未设置本轮规则。" };
-  
-  // 1. Check Count
-  if (selectedCards.length !== req.count) {
-    return { valid: false, reason: `必须打出 ${req.count} 张牌。` };
+  req: RoundRequirement | null,
+  rules: RuleSet = DEFAULT_RULES
+): { valid: boolean; reason?: Message } => {
+  if (!req) return { valid: false, reason: msg('invalid.noRequirement') };
+
+  // 0. A bomb can interrupt any round, and once one is down only a bigger bomb answers it
+  const bomb = isBomb(selectedCards);
+  if (lastPlayed && isBomb(lastPlayed.cards)) {
+    if (!bomb) return { valid: false, reason: msg('invalid.bombOnBomb') };
+    return beatsLastPlay(selectedCards, lastPlayed, rules)
+      ? { valid: true }
+      : { valid: false, reason: msg('invalid.biggerBomb') };
+  }
+  if (bomb && lastPlayed) return { valid: true };
+
+  // 1. Check Count (a bomb round takes a bomb of any size)
+  if (req.type === RequirementType.BOMB) {
+    if (!bomb) return { valid: false, reason: msg('invalid.bombOnly', { size: BOMB_SIZE }) };
+  } else if (selectedCards.length !== req.count) {
+    return { valid: false, reason: msg('invalid.count', { count: req.count }) };
   }
 
   // 2. Check Type Requirement
   if (req.type === RequirementType.SINGLE_FIXED || req.type === RequirementType.SINGLE_ASC) {
     const invalidType = selectedCards.find(c => c.type !== req.resourceType);
-    if (invalidType) return { valid: false, reason: `所有牌必须是 ${RESOURCE_CONFIG[req.resourceType!].label}。` };
+    if (invalidType) return { valid: false, reason: msg('invalid.resource', { resource: msg(`resource.${req.resourceType!}`) }) };
   }
 
-  // 3. Check Ascending Logic
-  if (req.type === RequirementType.SINGLE_ASC || req.type === RequirementType.MIXED_ASC) {
-    const levels = selectedCards.map(c => c.level).sort((a, b) => a - b);
-    for (let i = 0; i < levels.length - 1; i++) {
-      if (levels[i] >= levels[i+1]) {
-        return { valid: false, reason: "牌点数必须严格递增 (如 1, 2, 3)。" };
-      }
-    }
+  // 3. Check the shape of the combination
+  if ((req.type === RequirementType.SINGLE_ASC || req.type === RequirementType.MIXED_ASC) && !isStrictlyAscending(selectedCards)) {
+    return { valid: false, reason: msg('invalid.ascending') };
+  }
+  if (req.type === RequirementType.SAME_LEVEL && !isSameLevel(selectedCards)) {
+    return { valid: false, reason: msg('invalid.sameLevel') };
+  }
+  if (req.type === RequirementType.RUN && !isRun(selectedCards)) {
+    return { valid: false, reason: msg('invalid.run') };
+  }
+  if (req.type === RequirementType.PAIRS && !isPairs(selectedCards)) {
+    return { valid: false, reason: msg('invalid.pairs') };
   }
 
   // 4. Compare with Last Played (Match or Beat)
   if (lastPlayed) {
-    const currentSum = selectedCards.reduce((acc, c) => acc + c.level, 0);
-    const lastSum = lastPlayed.cards.reduce((acc, c) => acc + c.level, 0);
+    const currentSum = sumLevels(selectedCards);
+    const lastSum = sumLevels(lastPlayed.cards);
 
-    // Rule: Must be >= previous sum
-    if (currentSum < lastSum) {
-      return { valid: false, reason: `总点数 (${currentSum}) 必须 >= 上一家 (${lastSum})。` };
+    // Rule: Must be >= previous sum (or > under strict beating)
+    if (currentSum < minimumSum(lastPlayed, rules)) {
+      const key = rules.beat === 'STRICTLY_BEAT' ? 'invalid.sumStrict' : 'invalid.sum';
+      return { valid: false, reason: msg(key, { sum: currentSum, last: lastSum }) };
     }
   }
 
   return { valid: true };
 };
 
-// --- AI Logic ---
+// Readable summary of a requirement, for the table, the log and replays
+export const describeRequirement = ({ type, count, resourceType }: RoundRequirement): Message =>
+  msg(`requirement.${type}`, {
+    count,
+    pairs: count / 2,
+    resource: resourceType ? msg(`resource.${resourceType}`) : '',
+  });
 
-export const getAIMove = (player: Player, lastPlayed: PlayedSet | null, req: RoundRequirement): Card[] | null => {
-  // Simple AI: Try to find the lowest valid combination
-  // If no requirement (AI is dealer setting cards), AI just plays a random valid single card to start (handled in main loop logic usually, but here handled by separate dealer logic).
-  
-  if (!req) return null;
+export const inferRequirement = (cards: Card[]): RoundRequirement | null => {
+  if (cards.length === 0) return null;
 
-  // Filter possible cards based on type requirement
-  let candidateCards = [...player.hand];
-  if (req.type === RequirementType.SINGLE_FIXED || req.type === RequirementType.SINGLE_ASC) {
-    candidateCards = candidateCards.filter(c => c.type === req.resourceType);
-  }
+  const count = cards.length;
+  const types = new Set(cards.map(c => c.type));
+  const make = (type: RequirementType, resourceType?: ResourceType): RoundRequirement =>
+    ({ type, resourceType, count });
 
-  // Generate combinations of size req.count
-  const combinations = getCombinations(candidateCards, req.count);
+  // Case 1: Bomb, whatever the types
+  if (isBomb(cards)) return make(RequirementType.BOMB);
 
-  // Filter for valid moves
-  const validMoves = combinations.filter(combo => validateMove(combo, lastPlayed, req).valid);
+  // Case 2: Single Type
+  if (types.size === 1) {
+    const type = Array.from(types)[0];
+    return make(count > 1 && isStrictlyAscending(cards) ? RequirementType.SINGLE_ASC : RequirementType.SINGLE_FIXED, type);
+  }
 
-  if (validMoves.length === 0) return null; // Pass
+  // Case 3: Mixed Types, from the most specific shape down
+  if (isSameLevel(cards)) return make(RequirementType.SAME_LEVEL);
+  if (count >= 3 && isRun(cards)) return make(RequirementType.RUN);
+  if (isPairs(cards)) return make(RequirementType.PAIRS);
+  if (isStrictlyAscending(cards)) return make(RequirementType.MIXED_ASC);
+  return null;
+};
 
-  // Sort valid moves by "cost" (sum of levels), pick the cheapest one to save strong cards
-  validMoves.sort((a, b) => {
-    const sumA = a.reduce((sum, c) => sum + c.level, 0);
-    const sumB = b.reduce((sum, c) => sum + c.level, 0);
-    return sumA - sumB;
-  });
+// Whether a hand holds an opening play for the requirement within the rule set's card limits
+export const canOpenRound = (hand: Card[], req: RoundRequirement, rules: RuleSet = DEFAULT_RULES) =>
+  isRequirementCountAllowed(req.count, rules) && !!getCheapestMove(hand, null, req, rules);
+
+// --- AI Logic ---
 
-  return validMoves[0];
+export const getAIMove = (
+  player: Player,
+  lastPlayed: PlayedSet | null,
+  req: RoundRequirement,
+  rules: RuleSet = DEFAULT_RULES
+): Card[] | null => {
+  // Simple AI: pick the cheapest valid combination to save strong cards, pass if there is none
+  if (!req) return null;
+  return getCheapestMove(player.hand, lastPlayed, req, rules);
 };
 
-export const getAIDealerRequirement = (player: Player): RoundRequirement => {
+export const getAIDealerRequirement = (
+  player: Player,
+  rng: Rng,
+  style: DealerStyle = 'ABUNDANT',
+  rules: RuleSet = DEFAULT_RULES
+): RoundRequirement => {
   // AI Dealer Strategy: Look at hand, pick the most abundant type or random
   const counts = {
     [ResourceType.SOLDIER]: 0,
@@ -132,63 +210,50 @@ export const getAIDealerRequirement = (player: Player): RoundRequirement => {
     }
   });
 
-  // Decide mode randomly but weighted towards simple
-  const rand = Math.random();
+  const rand = rng.next();
   let type = RequirementType.SINGLE_FIXED;
   let count = 1;
-
-  if (rand > 0.8 && player.hand.length >= 3) {
+  // Cross-type shapes only when the hand can actually open them
+  const canOpen = (shape: RequirementType, n: number) => canOpenRound(player.hand, { type: shape, count: n }, rules);
+
+  if (style === 'RANDOM') {
+      // Any type it holds, mostly single cards
+      const owned = (Object.keys(counts) as ResourceType[]).filter(t => counts[t] > 0);
+      if (owned.length > 0) bestType = owned[rng.int(0, owned.length - 1)];
+      count = rand > 0.7 ? Math.min(counts[bestType], 2) : 1;
+  } else if (style === 'LONG') {
+      // Long ascending runs that drain hands quickly
+      if (rand > 0.8 && canOpen(RequirementType.RUN, 3)) {
+          type = RequirementType.RUN;
+          count = 3;
+      } else if (rand > 0.3 && player.hand.length >= 3) {
+          type = RequirementType.MIXED_ASC;
+          count = 3;
+      } else if (maxCount >= 3) {
+          type = RequirementType.SINGLE_ASC;
+          count = 3;
+      } else {
+          count = Math.min(maxCount, 2);
+      }
+  } else if (style === 'SHORT') {
+      // One card at a time keeps the rest of the hand in reserve
+      count = 1;
+  } else if (rand > 0.9 && canOpen(RequirementType.SAME_LEVEL, 2)) {
+      // Occasionally a pair of equal levels across types
+      type = RequirementType.SAME_LEVEL;
+      count = 2;
+  } else if (rand > 0.8 && player.hand.length >= 3) {
+      // Decide mode randomly but weighted towards simple
       type = RequirementType.MIXED_ASC;
       count = 3;
   } else if (rand > 0.6 && maxCount >= 2) {
       type = RequirementType.SINGLE_ASC;
       count = Math.min(maxCount, 2);
   } else {
-      type = RequirementType.SINGLE_FIXED;
       count = Math.min(maxCount, 2); // Play 1 or 2 cards
   }
 
-  return {
-    type,
-    resourceType: bestType,
-    count: Math.max(1, count),
-    description: `电脑选择: ${type} (${count} 张)`
-  };
+  // Keep within the rule set's count range; an unplayable count falls back to the forced opening
+  count = clampRequirementCount(Math.max(1, count), rules);
+  return { type, resourceType: bestType, count };
 };
-
-// Helper: combinatorics
-function getCombinations<T>(array: T[], size: number): T[][] {
-  const result: T[][] = [];
-
-  function backtrack(start: number, current: T[]) {
-    if (current.length === size) {
-      result.push([...current]);
-      return;
-    }
-    for (let i = start; i < array.length; i++) {
-      backtrack(i + 1, [...current, array[i]]);
-    }
-  }
-
-  backtrack(0, []);
-  return result;
-}
-
-export const mashCard = (card: Card): Card => {
-  const rand = Math.random();
-  let newLevel = card.level;
-
-  // Use thresholds based on cumulative probability
-  // 0 ... BETTER ... (BETTER+WORSE) ... 1
-  
-  if (rand < MASH_PROBABILITIES.BETTER) {
-    // Better (Probability: BETTER)
-    newLevel = Math.min(7, card.level + 1); // Max Level 7
-  } else if (rand < MASH_PROBABILITIES.BETTER + MASH_PROBABILITIES.WORSE) { 
-    // Worse (Probability: WORSE)
-    newLevel = Math.max(1, card.level - 1);
-  }
-  // Else Same (Probability: SAME)
-
-  return { ...card, level: newLevel };
-};
\ No newline at end of file
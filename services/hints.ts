@@ -0,0 +1,96 @@
+import { Card, GamePhase, GameState, Message, ResourceType, RoundRequirement, RequirementType } from '../types';
+import { BOMB_SIZE } from '../constants';
+import { describeRequirement, inferRequirement, validateMove } from './gameLogic';
+import { getLegalMoves } from './moveGenerator';
+import { getLastPlayed } from './engine';
+import { describeCountRange, isRequirementCountAllowed, sumLevels } from './rules';
+import { msg } from './i18n';
+import { ON_OFF_FORMAT, createPreference } from './preferences';
+
+// --- Hints ---
+// Built on the bots' move generator, so a hint is always a play the engine accepts. During a round
+// that is every legal play; as an inferring dealer it is the openings `inferRequirement` accepts.
+
+// Resource-bound and mixed ascending openings are listed up to this many cards; a longer one is the
+// same shape with more cards, and any part of it is already a valid opening on its own
+const MAX_LISTED_FREE_OPENING = 3;
+
+const HINTS_KEY = 'endgame-resource-battle:hints';
+
+export const hintsPreference = createPreference(HINTS_KEY, false, ON_OFF_FORMAT);
+
+const playKey = (cards: Card[]) => cards.map(c => c.id).sort().join();
+
+const openingRequirements = (hand: Card[], state: GameState): RoundRequirement[] => {
+  const { rules } = state;
+  const maxCount = Math.min(rules.maxRequirementCount ?? hand.length, hand.length);
+  const requirements: RoundRequirement[] = [];
+  for (let count = rules.minRequirementCount; count <= maxCount; count++) {
+    if (count <= MAX_LISTED_FREE_OPENING) {
+      Object.values(ResourceType).forEach(resourceType => {
+        requirements.push({ type: RequirementType.SINGLE_FIXED, resourceType, count });
+        if (count > 1) requirements.push({ type: RequirementType.SINGLE_ASC, resourceType, count });
+      });
+      if (count > 1) requirements.push({ type: RequirementType.MIXED_ASC, count });
+    }
+    if (count > 1) requirements.push({ type: RequirementType.SAME_LEVEL, count });
+    if (count >= 3) requirements.push({ type: RequirementType.RUN, count });
+    if (count >= 4 && count % 2 === 0) requirements.push({ type: RequirementType.PAIRS, count });
+  }
+  if (isRequirementCountAllowed(BOMB_SIZE, rules)) requirements.push({ type: RequirementType.BOMB, count: BOMB_SIZE });
+  return requirements;
+};
+
+// Legal plays for the player, cheapest first; empty when it is not their turn or the requirement
+// has to be announced before anything can be played
+export const getHintPlays = (state: GameState, playerId: string): Card[][] => {
+  const player = state.players[state.activePlayerIndex];
+  if (!player || player.id !== playerId) return [];
+
+  if (state.phase === GamePhase.DEALER_SELECTION) {
+    if (state.rules.opening === 'DECLARE') return [];
+    const seen = new Set<string>();
+    return openingRequirements(player.hand, state)
+      .flatMap(req => getLegalMoves(player.hand, null, req, state.rules))
+      .filter(cards => {
+        const key = playKey(cards);
+        if (seen.has(key) || !inferRequirement(cards)) return false;
+        seen.add(key);
+        return true;
+      })
+      .sort((a, b) => sumLevels(a) - sumLevels(b) || a.length - b.length);
+  }
+
+  if (state.phase !== GamePhase.PLAYING || !state.roundRequirement) return [];
+  return getLegalMoves(player.hand, getLastPlayed(state), state.roundRequirement, state.rules);
+};
+
+// Cards that appear in at least one of the hint plays
+export const getPlayableCardIds = (plays: Card[][]) => new Set(plays.flatMap(cards => cards.map(c => c.id)));
+
+export interface SelectionCheck {
+  valid: boolean;
+  canComplete: boolean; // Some hint play contains every selected card
+  message: Message; // What a valid selection does, or why the selection cannot be played yet
+}
+
+// Judges the current selection the way the engine will, so problems show before it is submitted
+export const checkSelection = (state: GameState, cards: Card[], plays: Card[][]): SelectionCheck | null => {
+  if (cards.length === 0 || plays.length === 0) return null;
+  const ids = cards.map(c => c.id);
+  const canComplete = plays.some(play => ids.every(id => play.some(c => c.id === id)));
+
+  if (state.phase === GamePhase.DEALER_SELECTION) {
+    const inferred = inferRequirement(cards);
+    if (!inferred) return { valid: false, canComplete, message: msg('log.cannotInfer') };
+    if (!isRequirementCountAllowed(cards.length, state.rules)) {
+      return { valid: false, canComplete, message: msg('log.countRange', { range: describeCountRange(state.rules) }) };
+    }
+    return { valid: true, canComplete, message: msg('hint.opens', { requirement: describeRequirement(inferred) }) };
+  }
+
+  const validation = validateMove(cards, getLastPlayed(state), state.roundRequirement, state.rules);
+  return validation.valid
+    ? { valid: true, canComplete, message: msg('hint.valid') }
+    : { valid: false, canComplete, message: validation.reason! };
+};
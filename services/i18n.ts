@@ -0,0 +1,54 @@
+import { Message, MessageKey, MessageParam } from '../types';
+import zhCN from '../locales/zh-CN';
+import en from '../locales/en';
+import { createPreference } from './preferences';
+
+// --- Localization ---
+// Every piece of user-facing text lives in a locale file under locales/, keyed by a stable id.
+// Text that is stored in the game (log entries, replay descriptions) is kept as a Message, a key
+// plus its values, and only turned into a string when rendered, so switching language also
+// rewrites what is already on screen. A Message can be a value of another one, e.g. a requirement
+// inside a log line.
+
+export type Locale = 'zh-CN' | 'en';
+
+export const LOCALES: Record<Locale, { label: string; messages: Record<MessageKey, string> }> = {
+  'zh-CN': { label: '中文', messages: zhCN },
+  en: { label: 'English', messages: en },
+};
+
+export const DEFAULT_LOCALE: Locale = 'zh-CN';
+
+const LOCALE_KEY = 'endgame-resource-battle:locale';
+
+export const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in LOCALES;
+
+// The server has no storage and always uses the default
+const localePreference = createPreference<Locale>(LOCALE_KEY, DEFAULT_LOCALE, {
+  parse: text => (isLocale(text) ? text : null),
+  format: locale => locale,
+});
+
+export const getLocale = localePreference.get;
+
+export const setLocale = (locale: Locale) => {
+  if (typeof document !== 'undefined') document.documentElement.lang = locale;
+  localePreference.set(locale);
+};
+
+export const subscribeLocale = localePreference.subscribe;
+
+export const msg = (key: MessageKey, params?: Record<string, MessageParam>): Message => (params ? { key, params } : { key });
+
+const formatParam = (param: MessageParam): string =>
+  typeof param === 'object' ? translate(param.key, param.params) : String(param);
+
+const translate = (key: MessageKey, params?: Record<string, MessageParam>): string => {
+  const template = LOCALES[getLocale()].messages[key] ?? zhCN[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? formatParam(params[name]) : match));
+};
+
+// `{name}` placeholders are filled from `params`, or from the message's own params
+export const t = (message: MessageKey | Message, params?: Record<string, MessageParam>): string =>
+  typeof message === 'string' ? translate(message, params) : translate(message.key, message.params);
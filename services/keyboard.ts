@@ -0,0 +1,94 @@
+import { Card, KeyAction, KeyBindings, Message, ResourceType } from '../types';
+import { DEFAULT_KEY_BINDINGS, MASH_KEYS } from '../constants';
+import { msg, t } from './i18n';
+import { createPreference, jsonFormat } from './preferences';
+
+// --- Keyboard ---
+// Shortcuts match `KeyboardEvent.key`, lower-cased, so they follow the keyboard layout rather than
+// key positions. Bindings are kept in the browser; the mash keys stay reserved for the minigames.
+// An empty binding leaves the action to the mouse.
+
+const KEYS_KEY = 'endgame-resource-battle:keys';
+
+// Keys whose `key` value is not what is printed on them
+const KEY_SYMBOLS: Record<string, string> = {
+  arrowleft: '←',
+  arrowright: '→',
+  arrowup: '↑',
+  arrowdown: '↓',
+  escape: 'Esc',
+  backspace: '⌫',
+  tab: 'Tab',
+};
+
+export const formatKey = (key: string) => {
+  if (!key) return '—';
+  if (key === ' ') return t('keys.key.space');
+  if (key === 'enter') return t('keys.key.enter');
+  return KEY_SYMBOLS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+};
+
+export const normalizeKey = (e: KeyboardEvent) => e.key.toLowerCase();
+
+// Typing into a field is never a shortcut
+export const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName) || target.isContentEditable);
+
+export const findKeyAction = (bindings: KeyBindings, key: string): KeyAction | null =>
+  Object.values(KeyAction).find(action => bindings[action] === key) ?? null;
+
+// Why `key` cannot be bound to `action`, or null when it can
+export const getBindingConflict = (bindings: KeyBindings, action: KeyAction, key: string): Message | null => {
+  if (MASH_KEYS.includes(key)) return msg('keys.mashKey', { key: formatKey(key) });
+  const other = Object.values(KeyAction).find(a => a !== action && bindings[a] === key);
+  return other ? msg('keys.taken', { key: formatKey(key), action: msg(`keys.action.${other}`) }) : null;
+};
+
+// Stored bindings that are missing or clash with the mash keys or each other fall back to the defaults,
+// or to no key when the default is already taken; an action left unbound on purpose stays unbound
+const readKeyBindings = (stored: Record<string, unknown>): KeyBindings => {
+  const bindings = Object.fromEntries(Object.values(KeyAction).map(action => [action, ''])) as KeyBindings;
+  const bind = (action: KeyAction, key: unknown) => {
+    if (typeof key === 'string' && (key === '' || !getBindingConflict(bindings, action, key))) bindings[action] = key;
+  };
+  Object.values(KeyAction).forEach(action => bind(action, stored[action]));
+  Object.values(KeyAction).forEach(action => {
+    if (!bindings[action] && stored[action] !== '') bind(action, DEFAULT_KEY_BINDINGS[action]);
+  });
+  return bindings;
+};
+
+export const keyBindingsPreference = createPreference(KEYS_KEY, readKeyBindings({}), jsonFormat(data =>
+  typeof data === 'object' && data !== null ? readKeyBindings(data as Record<string, unknown>) : null
+));
+
+// --- Hand Navigation ---
+
+// The hand as it is laid out on screen: one group per resource, in a fixed order
+export const getHandGroups = (hand: Card[]): Card[][] =>
+  Object.values(ResourceType).map(type => hand.filter(c => c.type === type)).filter(group => group.length > 0);
+
+// The card focus lands on after a navigation key; with nothing focused yet it starts at the first card
+export const moveHandFocus = (hand: Card[], focusedId: string | null, action: KeyAction): string | null => {
+  const groups = getHandGroups(hand);
+  const cards = groups.flat();
+  const index = cards.findIndex(c => c.id === focusedId);
+  if (cards.length === 0) return null;
+  if (index === -1) return cards[0].id;
+
+  const wrap = (i: number, length: number) => (i + length) % length;
+  switch (action) {
+    case KeyAction.FOCUS_PREV:
+      return cards[wrap(index - 1, cards.length)].id;
+    case KeyAction.FOCUS_NEXT:
+      return cards[wrap(index + 1, cards.length)].id;
+    case KeyAction.GROUP_PREV:
+    case KeyAction.GROUP_NEXT: {
+      const group = groups.findIndex(g => g.some(c => c.id === focusedId));
+      const step = action === KeyAction.GROUP_NEXT ? 1 : -1;
+      return groups[wrap(group + step, groups.length)][0].id;
+    }
+    default:
+      return focusedId;
+  }
+};
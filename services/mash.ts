@@ -0,0 +1,34 @@
+import { Card, GameState, RuleSet } from '../types';
+import { DEFAULT_RULES, MASH_LIMIT_PER_ROUND, MASH_ODDS } from '../constants';
+import { Rng } from './rng';
+
+// --- Mashing ---
+// The odds and the per-round cap live here so human mashes, bot cheats and the odds shown in the UI
+// all follow the same rules. Which minigame a human clears first never changes the roll.
+
+export interface MashOdds {
+  better: number;
+  same: number;
+  worse: number;
+}
+
+export const getMashOdds = (level: number, rules: RuleSet = DEFAULT_RULES): MashOdds => {
+  const span = Math.max(1, rules.maxLevel - rules.minLevel);
+  const t = Math.min(1, Math.max(0, (level - rules.minLevel) / span));
+  const better = level >= rules.maxLevel ? 0 : MASH_ODDS.BETTER_LOW + (MASH_ODDS.BETTER_HIGH - MASH_ODDS.BETTER_LOW) * t;
+  const worse = level <= rules.minLevel ? 0 : MASH_ODDS.WORSE_LOW + (MASH_ODDS.WORSE_HIGH - MASH_ODDS.WORSE_LOW) * t;
+  return { better, worse, same: 1 - better - worse };
+};
+
+export const mashCard = (card: Card, rng: Rng, rules: RuleSet = DEFAULT_RULES): Card => {
+  const odds = getMashOdds(card.level, rules);
+  const rand = rng.next();
+
+  // 0 ... better ... (better + worse) ... 1
+  if (rand < odds.better) return { ...card, level: card.level + 1 };
+  if (rand < odds.better + odds.worse) return { ...card, level: card.level - 1 };
+  return card;
+};
+
+export const getMashesLeft = (state: GameState, playerId: string) =>
+  Math.max(0, MASH_LIMIT_PER_ROUND - (state.mashesThisRound[playerId] ?? 0));
@@ -0,0 +1,118 @@
+import { GameOptions, GamePhase, GameState, Match, MatchEntrant, MatchFormat, MatchGameResult, RuleSet } from '../types';
+import { DEFAULT_PLAYER_COUNT } from '../constants';
+import { createInitialState } from './engine';
+import { getSeatName } from './gameLogic';
+import { t } from './i18n';
+
+// --- Matches ---
+// A match is a series of ordinary games between the same entrants. Game n is dealt from
+// baseSeed + n, so a whole match can be replayed from its first seed. In a best-of or medal race
+// every entrant plays every game and the seating rotates one place per game, which also rotates
+// the first dealer (always seat 0). A round robin pairs entrants off into duels instead.
+
+export interface Standing {
+  entrant: MatchEntrant;
+  played: number;
+  wins: number;
+  medals: number;
+}
+
+export const createEntrants = (options: GameOptions): MatchEntrant[] => {
+  const { humanSeats, bots = {}, names = {}, profiles = {}, playerCount = DEFAULT_PLAYER_COUNT } = options;
+  return Array.from({ length: playerCount }, (_, seat) => ({
+    key: `E${seat + 1}`,
+    name: names[seat] ?? getSeatName(seat, humanSeats),
+    isHuman: humanSeats.includes(seat),
+    bot: humanSeats.includes(seat) ? undefined : bots[seat],
+    profileId: humanSeats.includes(seat) ? profiles[seat] : undefined,
+  }));
+};
+
+export const createMatch = (format: MatchFormat, entrants: MatchEntrant[], rules: RuleSet, baseSeed: number): Match =>
+  ({ format, entrants, rules, baseSeed, results: [] });
+
+export const describeMatchFormat = (format: MatchFormat) => {
+  switch (format.kind) {
+    case 'BEST_OF': return t('matchFormat.bestOf', { games: format.games, wins: Math.floor(format.games / 2) + 1 });
+    case 'MEDAL_TARGET': return t('matchFormat.medalTarget', { medals: format.medals });
+    case 'ROUND_ROBIN': return t('matchFormat.roundRobin');
+  }
+};
+
+// Every pair of entrants once, in entrant order
+const getPairings = (match: Match): string[][] =>
+  match.entrants.flatMap((a, i) => match.entrants.slice(i + 1).map(b => [a.key, b.key]));
+
+export const getStandings = (match: Match): Standing[] => {
+  const standings = match.entrants.map(entrant => {
+    const games = match.results.filter(r => r.seats.includes(entrant.key));
+    return {
+      entrant,
+      played: games.length,
+      wins: games.filter(r => r.winnerKey === entrant.key).length,
+      medals: games.reduce((sum, r) => sum + (r.medals[entrant.key] ?? 0), 0),
+    };
+  });
+  const byMedals = match.format.kind === 'MEDAL_TARGET';
+  return standings.sort((a, b) =>
+    byMedals ? b.medals - a.medals || b.wins - a.wins : b.wins - a.wins || b.medals - a.medals
+  );
+};
+
+export const countUnfinished = (match: Match) => match.results.filter(r => r.winnerKey === null).length;
+
+export const isMatchOver = (match: Match): boolean => {
+  const { format, results } = match;
+  switch (format.kind) {
+    case 'BEST_OF':
+      return results.length >= format.games || getStandings(match)[0].wins > format.games / 2;
+    case 'MEDAL_TARGET':
+      return getStandings(match)[0].medals >= format.medals;
+    case 'ROUND_ROBIN':
+      return results.length >= getPairings(match).length;
+  }
+};
+
+// Entrant keys in seat order for the next game, or null once the match is decided
+export const getNextSeats = (match: Match): string[] | null => {
+  if (isMatchOver(match)) return null;
+  const n = match.results.length;
+  if (match.format.kind === 'ROUND_ROBIN') {
+    // Alternate who sits first (and so deals first) from one duel to the next
+    const pairing = getPairings(match)[n];
+    return n % 2 === 0 ? pairing : [...pairing].reverse();
+  }
+  const keys = match.entrants.map(e => e.key);
+  const shift = n % keys.length;
+  return [...keys.slice(shift), ...keys.slice(0, shift)];
+};
+
+export const createMatchGame = (match: Match): GameState | null => {
+  const seats = getNextSeats(match);
+  if (!seats) return null;
+  const entrants = seats.map(key => match.entrants.find(e => e.key === key)!);
+  return createInitialState((match.baseSeed + match.results.length) >>> 0, {
+    playerCount: seats.length,
+    humanSeats: entrants.flatMap((e, seat) => (e.isHuman ? [seat] : [])),
+    bots: Object.fromEntries(entrants.flatMap((e, seat) => (e.bot ? [[seat, e.bot]] : []))),
+    names: Object.fromEntries(entrants.map((e, seat) => [seat, e.name])),
+    profiles: Object.fromEntries(entrants.flatMap((e, seat) => (e.profileId ? [[seat, e.profileId]] : []))),
+    rules: match.rules,
+    dealerSeat: 0,
+  });
+};
+
+// Records a played game; it must be the one createMatchGame dealt for the current position.
+// A game that never reached its end still uses up its place in the schedule, but with no result.
+export const recordMatchGame = (match: Match, game: GameState): Match => {
+  const seats = getNextSeats(match);
+  if (!seats) return match;
+  const finished = game.phase === GamePhase.GAME_END;
+  const result: MatchGameResult = {
+    seed: game.seed,
+    seats,
+    winnerKey: finished ? seats[game.players.findIndex(p => p.id === game.winnerId)] ?? seats[0] : null,
+    medals: finished ? Object.fromEntries(game.players.map((p, seat) => [seats[seat], p.medals])) : {},
+  };
+  return { ...match, results: [...match.results, result] };
+};
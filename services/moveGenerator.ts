@@ -0,0 +1,241 @@
+import { Card, PlayedSet, RoundRequirement, RequirementType, RuleSet } from '../types';
+import { BOMB_SIZE, DEFAULT_RULES } from '../constants';
+import { beatsLastPlay, comparePlays, isBomb, minimumSum, sumLevels } from './rules';
+
+// --- Move Generator ---
+// Builds legal plays directly from the requirement instead of listing every subset and filtering:
+// cards are bucketed by level, ascending rules take at most one card per level, and branches that
+// cannot reach the sum needed to beat the last play are cut before they are expanded.
+// Cards with the same type and level are interchangeable, so only one of them is ever offered.
+// Same-level, run and pairs rules ignore types altogether, and bombs are offered on top of whatever
+// the requirement allows.
+
+interface LevelBucket {
+  level: number;
+  cards: Card[]; // Distinct representatives: one per type for ascending rules, every copy for fixed rules
+  maxTake: number;
+}
+
+const isAscending = (req: RoundRequirement) =>
+  req.type === RequirementType.SINGLE_ASC || req.type === RequirementType.MIXED_ASC;
+
+const buildBuckets = (hand: Card[], req: RoundRequirement): LevelBucket[] => {
+  const pool = req.type === RequirementType.MIXED_ASC ? hand : hand.filter(c => c.type === req.resourceType);
+  const byLevel = new Map<number, Card[]>();
+  pool.forEach(card => {
+    const bucket = byLevel.get(card.level) ?? [];
+    if (!isAscending(req) || !bucket.some(c => c.type === card.type)) bucket.push(card);
+    byLevel.set(card.level, bucket);
+  });
+
+  return Array.from(byLevel.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([level, cards]) => ({ level, cards, maxTake: isAscending(req) ? 1 : cards.length }));
+};
+
+// Highest total that `remaining` more cards can add from buckets[from..]
+const bestPossibleAdd = (buckets: LevelBucket[], from: number, remaining: number) => {
+  let total = 0;
+  for (let i = buckets.length - 1; i >= from && remaining > 0; i--) {
+    const take = Math.min(buckets[i].maxTake, remaining);
+    total += take * buckets[i].level;
+    remaining -= take;
+  }
+  return remaining > 0 ? -Infinity : total;
+};
+
+// Lowest total that `remaining` more cards can add from buckets[from..]
+const leastPossibleAdd = (buckets: LevelBucket[], from: number, remaining: number) => {
+  let total = 0;
+  for (let i = from; i < buckets.length && remaining > 0; i++) {
+    const take = Math.min(buckets[i].maxTake, remaining);
+    total += take * buckets[i].level;
+    remaining -= take;
+  }
+  return remaining > 0 ? Infinity : total;
+};
+
+// Depth-first walk over the buckets. `visit` returns true to stop the whole search early;
+// `ceiling` lets the caller cut branches that cannot beat a result it already has.
+const walk = (
+  hand: Card[],
+  lastPlayed: PlayedSet | null,
+  req: RoundRequirement,
+  rules: RuleSet,
+  visit: (move: Card[], sum: number) => boolean,
+  ceiling: () => number = () => Infinity
+) => {
+  if (req.count <= 0) return;
+  const buckets = buildBuckets(hand, req);
+  const minSum = minimumSum(lastPlayed, rules);
+  const chosen: Card[] = [];
+
+  const step = (index: number, remaining: number, sum: number): boolean => {
+    if (remaining === 0) return sum >= minSum ? visit([...chosen], sum) : false;
+    if (index >= buckets.length) return false;
+    if (sum + bestPossibleAdd(buckets, index, remaining) < minSum) return false;
+    if (sum + leastPossibleAdd(buckets, index, remaining) > ceiling()) return false;
+
+    const bucket = buckets[index];
+    const maxTake = Math.min(bucket.maxTake, remaining);
+
+    // Taking more of a low level keeps sums small, so try the largest take first for fixed rules
+    for (let take = maxTake; take >= 1; take--) {
+      if (isAscending(req)) {
+        for (const card of bucket.cards) {
+          chosen.push(card);
+          const stop = step(index + 1, remaining - 1, sum + card.level);
+          chosen.pop();
+          if (stop) return true;
+        }
+      } else {
+        chosen.push(...bucket.cards.slice(0, take));
+        const stop = step(index + 1, remaining - take, sum + take * bucket.level);
+        chosen.splice(chosen.length - take, take);
+        if (stop) return true;
+      }
+    }
+    return step(index + 1, remaining, sum);
+  };
+
+  step(0, req.count, 0);
+};
+
+// --- Level-Shaped Rules ---
+// These only look at levels, so one combination per choice of levels is enough.
+
+const groupByLevel = (hand: Card[]) => {
+  const byLevel = new Map<number, Card[]>();
+  hand.forEach(card => byLevel.set(card.level, [...(byLevel.get(card.level) ?? []), card]));
+  return byLevel;
+};
+
+const isLevelShaped = (req: RoundRequirement) =>
+  req.type === RequirementType.SAME_LEVEL || req.type === RequirementType.RUN || req.type === RequirementType.PAIRS;
+
+// Every way to pick `size` of `items`, in order
+const choose = <T>(items: T[], size: number): T[][] => {
+  if (size === 0) return [[]];
+  if (items.length < size) return [];
+  const [first, ...rest] = items;
+  return [...choose(rest, size - 1).map(combo => [first, ...combo]), ...choose(rest, size)];
+};
+
+const shapedMoves = (hand: Card[], req: RoundRequirement): Card[][] => {
+  const byLevel = groupByLevel(hand);
+  const levels = Array.from(byLevel.keys()).sort((a, b) => a - b);
+  switch (req.type) {
+    case RequirementType.SAME_LEVEL:
+      return levels.filter(l => byLevel.get(l)!.length >= req.count).map(l => byLevel.get(l)!.slice(0, req.count));
+    case RequirementType.RUN:
+      return levels
+        .filter(l => Array.from({ length: req.count }, (_, i) => l + i).every(level => byLevel.has(level)))
+        .map(l => Array.from({ length: req.count }, (_, i) => byLevel.get(l + i)![0]));
+    case RequirementType.PAIRS:
+      if (req.count % 2 !== 0 || req.count < 4) return [];
+      return choose(levels.filter(l => byLevel.get(l)!.length >= 2), req.count / 2)
+        .map(combo => combo.flatMap(l => byLevel.get(l)!.slice(0, 2)));
+    default:
+      return [];
+  }
+};
+
+// Every bomb in hand, weakest first
+const bombMoves = (hand: Card[]): Card[][] => {
+  const bombs: Card[][] = [];
+  groupByLevel(hand).forEach(cards => {
+    for (let size = BOMB_SIZE; size <= cards.length; size++) bombs.push(cards.slice(0, size));
+  });
+  return bombs.sort(comparePlays);
+};
+
+// Plays that follow the requirement itself; nothing but a bomb answers a bomb
+const regularMoves = (
+  hand: Card[],
+  lastPlayed: PlayedSet | null,
+  req: RoundRequirement,
+  rules: RuleSet
+): { cards: Card[]; sum: number }[] => {
+  if (req.type === RequirementType.BOMB || (lastPlayed && isBomb(lastPlayed.cards))) return [];
+  const moves: { cards: Card[]; sum: number }[] = [];
+  if (isLevelShaped(req)) {
+    const minSum = minimumSum(lastPlayed, rules);
+    shapedMoves(hand, req).forEach(cards => {
+      const sum = sumLevels(cards);
+      if (sum >= minSum) moves.push({ cards, sum });
+    });
+  } else {
+    walk(hand, lastPlayed, req, rules, (cards, sum) => {
+      moves.push({ cards, sum });
+      return false;
+    });
+  }
+  return moves.sort((a, b) => a.sum - b.sum);
+};
+
+// Bombs that may be played right now: as an interrupt once the round is open, or to open a bomb round
+const playableBombs = (hand: Card[], lastPlayed: PlayedSet | null, req: RoundRequirement, rules: RuleSet) =>
+  lastPlayed || req.type === RequirementType.BOMB
+    ? bombMoves(hand).filter(cards => beatsLastPlay(cards, lastPlayed, rules))
+    : [];
+
+// Every legal play: requirement plays cheapest (lowest sum of levels) first, then bombs weakest first
+export const getLegalMoves = (
+  hand: Card[],
+  lastPlayed: PlayedSet | null,
+  req: RoundRequirement,
+  rules: RuleSet = DEFAULT_RULES
+): Card[][] => {
+  const regular = regularMoves(hand, lastPlayed, req, rules).map(m => m.cards);
+  const key = (cards: Card[]) => cards.map(c => c.id).sort().join();
+  const seen = new Set(regular.map(key));
+  return [...regular, ...playableBombs(hand, lastPlayed, req, rules).filter(cards => !seen.has(key(cards)))];
+};
+
+// The cheapest requirement play; a bomb only when nothing else will do
+export const getCheapestMove = (
+  hand: Card[],
+  lastPlayed: PlayedSet | null,
+  req: RoundRequirement,
+  rules: RuleSet = DEFAULT_RULES
+): Card[] | null => {
+  if (isLevelShaped(req)) {
+    const regular = regularMoves(hand, lastPlayed, req, rules);
+    if (regular.length > 0) return regular[0].cards;
+  } else if (req.type !== RequirementType.BOMB && !(lastPlayed && isBomb(lastPlayed.cards))) {
+    let best: Card[] | null = null;
+    let bestSum = Infinity;
+    const floor = minimumSum(lastPlayed, rules);
+    walk(
+      hand, lastPlayed, req, rules,
+      (cards, sum) => {
+        if (sum < bestSum) {
+          best = cards;
+          bestSum = sum;
+        }
+        // Nothing can be cheaper than exactly matching the minimum
+        return bestSum === floor;
+      },
+      () => bestSum - 1
+    );
+    if (best) return best;
+  }
+  return playableBombs(hand, lastPlayed, req, rules)[0] ?? null;
+};
+
+export const hasLegalMove = (
+  hand: Card[],
+  lastPlayed: PlayedSet | null,
+  req: RoundRequirement,
+  rules: RuleSet = DEFAULT_RULES
+): boolean => {
+  if (playableBombs(hand, lastPlayed, req, rules).length > 0) return true;
+  if (isLevelShaped(req)) return regularMoves(hand, lastPlayed, req, rules).length > 0;
+  if (req.type === RequirementType.BOMB || (lastPlayed && isBomb(lastPlayed.cards))) return false;
+  let found = false;
+  walk(hand, lastPlayed, req, rules, () => {
+    found = true;
+    return true;
+  });
+  return found;
+};
@@ -0,0 +1,98 @@
+import { GameState } from '../types';
+import { ClientMessage, PlayerIntent, ServerMessage } from './protocol';
+
+// --- Online Client ---
+// A thin WebSocket wrapper for the browser. The seat token from the last join is kept in
+// sessionStorage, so a dropped connection or a page refresh resumes the same seat.
+
+const SESSION_KEY = 'endgame-resource-battle:online';
+const RECONNECT_DELAY_MS = 1500;
+
+export type ConnectionStatus = 'CONNECTING' | 'OPEN' | 'CLOSED';
+
+export interface OnlineSession {
+  url: string;
+  roomId: string;
+  token: string;
+}
+
+// What GameTable needs to render a server-owned game instead of running its own reducer
+export interface RemoteGame {
+  game: GameState;
+  seat: number;
+  handSizes: Record<string, number>;
+  turnEndsAt: number | null; // Local clock time at which the server will time the turn out
+  send: (intent: PlayerIntent) => void;
+  onExit: () => void;
+}
+
+export interface ServerConnection {
+  send: (message: ClientMessage) => void;
+  close: () => void;
+}
+
+export const loadOnlineSession = (): OnlineSession | null => {
+  try {
+    const text = sessionStorage.getItem(SESSION_KEY);
+    return text ? (JSON.parse(text) as OnlineSession) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveOnlineSession = (session: OnlineSession | null) => {
+  try {
+    if (session) sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    else sessionStorage.removeItem(SESSION_KEY);
+  } catch {
+    // Without storage a refresh simply cannot resume the seat
+  }
+};
+
+// Opens a connection that keeps retrying until closed. `onOpen` runs on every (re)connect,
+// which is where the caller resumes its seat.
+export const connectToServer = (
+  url: string,
+  handlers: {
+    onOpen: () => void;
+    onMessage: (message: ServerMessage) => void;
+    onStatus: (status: ConnectionStatus) => void;
+  }
+): ServerConnection => {
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let retry: ReturnType<typeof setTimeout> | null = null;
+
+  const open = () => {
+    handlers.onStatus('CONNECTING');
+    socket = new WebSocket(url);
+    socket.onopen = () => {
+      handlers.onStatus('OPEN');
+      handlers.onOpen();
+    };
+    socket.onmessage = (e) => {
+      try {
+        handlers.onMessage(JSON.parse(e.data) as ServerMessage);
+      } catch {
+        // Ignore anything that is not JSON
+      }
+    };
+    socket.onclose = () => {
+      handlers.onStatus('CLOSED');
+      if (!closed) retry = setTimeout(open, RECONNECT_DELAY_MS);
+    };
+  };
+
+  open();
+
+  return {
+    send: (message) => {
+      if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    close: () => {
+      closed = true;
+      if (retry) clearTimeout(retry);
+      socket?.close();
+    },
+  };
+};
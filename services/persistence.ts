@@ -0,0 +1,286 @@
+import {
+  BotDifficulty, BotPersonality, BotSettings, Card, GameEvent, GamePhase, GameState, Player, RequirementType,
+  ResourceType, RoundRequirement, RulePreset
+} from '../types';
+import { CLASSIC_CLOCK, DEFAULT_RULES, RULE_PRESETS } from '../constants';
+import { createInitialState } from './engine';
+import { TurnClock, createClock } from './clock';
+import { msg } from './i18n';
+
+// --- Save / Resume ---
+// The game in progress is written to localStorage after every action under a versioned envelope.
+// Loading runs the envelope through every migration newer than its version, then validates the
+// result field by field; anything that does not look like a playable game is discarded rather than
+// crashing the app.
+
+const SAVE_KEY = 'endgame-resource-battle:save';
+
+export const SAVE_VERSION = 10;
+
+export interface SavedGame {
+  version: number;
+  savedAt: number;
+  game: GameState;
+  clock: TurnClock;
+}
+
+// A save as read back from storage, before it is known to be a game
+type SaveData = Record<string, unknown>;
+
+// Requirement types used to be stored as their Chinese display names
+const LEGACY_REQUIREMENT_TYPES: Record<string, RequirementType> = {
+  '单类型 (固定数量)': RequirementType.SINGLE_FIXED,
+  '单类型 (点数递增)': RequirementType.SINGLE_ASC,
+  '混合类型 (点数递增)': RequirementType.MIXED_ASC,
+  '同点数 (任意类型)': RequirementType.SAME_LEVEL,
+  '顺子 (逐级加一)': RequirementType.RUN,
+  '连对 (多组对子)': RequirementType.PAIRS,
+  '炸弹 (四张以上同点数)': RequirementType.BOMB,
+};
+
+// Also drops the display text requirements used to carry
+const upgradeLegacyRequirement = (req: unknown) => {
+  if (!isObject(req)) return req;
+  const { description, ...rest } = req;
+  return typeof req.type === 'string' ? { ...rest, type: LEGACY_REQUIREMENT_TYPES[req.type] ?? req.type } : rest;
+};
+
+export const upgradeLegacyEvent = (event: unknown) =>
+  isObject(event) && event.type === 'REQUIREMENT' ? { ...event, requirement: upgradeLegacyRequirement(event.requirement) } : event;
+
+const updateGame = (save: SaveData, update: (game: SaveData) => SaveData): SaveData =>
+  isObject(save.game) ? { ...save, game: update(save.game) } : save;
+
+// Hands are a pure function of the seed and the table, so a save without a DEAL event gets one
+// dealt again from its own seats. Every card still in a hand must turn up at the same seat in the
+// new deal; when one does not, the deal cannot be rebuilt exactly and the save is dropped.
+const rebuildDeal = (save: SaveData): SaveData | null => {
+  const game = save.game;
+  if (!isObject(game) || !isInteger(game.seed) || !Array.isArray(game.players) || !game.players.every(isPlayer)) return null;
+  const events: unknown[] = Array.isArray(game.events) ? game.events : [];
+  if (isObject(events[0]) && events[0].type === 'DEAL') return save;
+
+  const players: Player[] = game.players;
+  const dealt = createInitialState(game.seed, {
+    playerCount: players.length,
+    humanSeats: players.flatMap((p, seat) => (p.isHuman ? [seat] : [])),
+    bots: Object.fromEntries(players.flatMap((p, seat) => (p.bot ? [[seat, p.bot]] : []))),
+    rules: DEFAULT_RULES,
+  });
+  const deal = dealt.events[0];
+  const sameDeal = deal?.type === 'DEAL' && players.every((p, seat) => {
+    const hand = deal.hands[p.id] ?? [];
+    return dealt.players[seat].id === p.id && p.hand.every(card => hand.some(c => c.id === card.id));
+  });
+  return sameDeal ? { ...save, game: { ...game, events: [deal, ...events] } } : null;
+};
+
+// MIGRATIONS[n] upgrades a version n save to version n + 1, or returns null when it cannot
+const MIGRATIONS: Record<number, (save: SaveData) => SaveData | null> = {
+  // v2: the event stream starts with a DEAL event
+  1: rebuildDeal,
+  // v3: games carry their rule set; everything saved before then was played under the classic rules
+  2: save => updateGame(save, game => (game.rules ? game : { ...game, rules: DEFAULT_RULES })),
+  // v4: challenges need to know what was mashed this round; older saves start with a clean slate
+  3: save => updateGame(save, game => ({ mashedThisRound: {}, noticedMashers: [], challengeOpen: false, ...game })),
+  // v5: mashing is capped per round
+  4: save => updateGame(save, game => ({ mashesThisRound: {}, ...game })),
+  // v6: rule sets carry scoring weights; take them from the preset the game was started with
+  5: save => updateGame(save, game => {
+    const rules = game.rules;
+    if (!isObject(rules) || rules.scoring) return game;
+    const preset = isEnumValue(RulePreset, rules.preset) ? (rules.preset as RulePreset) : RulePreset.CLASSIC;
+    return { ...game, rules: { ...rules, scoring: RULE_PRESETS[preset].rules.scoring } };
+  }),
+  // v7: requirement types are stable ids and log entries are locale messages; old log text is kept as is
+  6: save => updateGame(save, game => ({
+    ...game,
+    roundRequirement: upgradeLegacyRequirement(game.roundRequirement),
+    events: Array.isArray(game.events) ? game.events.map(upgradeLegacyEvent) : game.events,
+    logs: Array.isArray(game.logs)
+      ? game.logs.map((log: unknown) => (isObject(log) && typeof log.text === 'string'
+        ? { id: log.id, type: log.type, message: msg('log.legacy', { text: log.text }) }
+        : log))
+      : game.logs,
+  })),
+  // v8: rule sets say how requirements are set; every earlier preset read them off the opening play
+  7: save => updateGame(save, game => (isObject(game.rules) && !game.rules.opening
+    ? { ...game, rules: { ...game.rules, opening: 'INFER' } }
+    : game)),
+  // v9: practice games; nothing saved before then was one
+  8: save => updateGame(save, game => ({ practice: false, undoUsed: false, ...game })),
+  // v10: rule sets carry a turn clock, saved beside the game. The seconds the save had left in the
+  // current turn become that turn's allowance.
+  9: save => {
+    const upgraded = updateGame(save, game => (isObject(game.rules) && !game.rules.clock
+      ? { ...game, rules: { ...game.rules, clock: CLASSIC_CLOCK } }
+      : game));
+    if (!isGameState(upgraded.game)) return null;
+    const clock = createClock(upgraded.game);
+    const { timeLeft, ...rest } = upgraded;
+    return {
+      ...rest,
+      clock: typeof timeLeft === 'number' && Number.isFinite(timeLeft) ? { ...clock, turnMs: Math.max(1, timeLeft) * 1000 } : clock,
+    };
+  },
+};
+
+// --- Validation ---
+
+export const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+
+const isEnumValue = (values: object, value: unknown) => (Object.values(values) as unknown[]).includes(value);
+
+export const isCard = (value: unknown): value is Card =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  isEnumValue(ResourceType, value.type) &&
+  isInteger(value.level) && value.level >= 0; // The range itself depends on the rule set
+
+const isCardList = (value: unknown): value is Card[] => Array.isArray(value) && value.every(isCard);
+
+export const isBotSettings = (value: unknown): value is BotSettings =>
+  isObject(value) &&
+  isEnumValue(BotDifficulty, value.difficulty) &&
+  isEnumValue(BotPersonality, value.personality) &&
+  (value.budget === undefined || (isObject(value.budget) &&
+    isInteger(value.budget.iterations) && isInteger(value.budget.timeLimitMs) && isInteger(value.budget.rolloutRounds)));
+
+const isPlayer = (value: unknown): value is Player =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.isHuman === 'boolean' &&
+  isCardList(value.hand) &&
+  isInteger(value.medals) &&
+  typeof value.passedThisRound === 'boolean' &&
+  (value.bot === undefined || isBotSettings(value.bot)) &&
+  (value.profileId === undefined || typeof value.profileId === 'string');
+
+export const isRequirement = (value: unknown): value is RoundRequirement =>
+  isObject(value) &&
+  isEnumValue(RequirementType, value.type) &&
+  (value.resourceType === undefined || isEnumValue(ResourceType, value.resourceType)) &&
+  isInteger(value.count) && value.count >= 1;
+
+// Checks the fields each event type carries; which players the ids name is up to the caller
+export const isGameEvent = (value: unknown): value is GameEvent => {
+  if (!isObject(value) || !isInteger(value.round)) return false;
+  const isId = (id: unknown) => typeof id === 'string';
+  switch (value.type) {
+    case 'DEAL':
+      return isId(value.dealerId) && isObject(value.hands) && Object.values(value.hands).every(isCardList);
+    case 'REQUIREMENT':
+      return isId(value.playerId) && isRequirement(value.requirement);
+    case 'PLAY':
+      return isId(value.playerId) && isCardList(value.cards);
+    case 'PASS':
+    case 'TIMEOUT':
+      return isId(value.playerId);
+    case 'MASH':
+      return isId(value.playerId) && isId(value.cardId) && isInteger(value.before) && isInteger(value.after);
+    case 'CHALLENGE':
+      return isId(value.challengerId) && isId(value.targetId) && typeof value.caught === 'boolean' &&
+        isCardList(value.restored) && typeof value.medalLost === 'boolean';
+    case 'ROUND_END':
+    case 'GAME_END':
+      return isId(value.winnerId);
+    default:
+      return false;
+  }
+};
+
+const isIndex = (value: unknown, length: number) => isInteger(value) && value >= 0 && value < length;
+
+const isGameState = (value: unknown): value is GameState => {
+  if (!isObject(value) || !Array.isArray(value.players) || value.players.length === 0 || !value.players.every(isPlayer)) return false;
+  const playerIds = value.players.map((p: Player) => p.id);
+  return isEnumValue(GamePhase, value.phase) &&
+    isIndex(value.dealerIndex, playerIds.length) &&
+    isIndex(value.activePlayerIndex, playerIds.length) &&
+    (value.roundRequirement === null || isRequirement(value.roundRequirement)) &&
+    Array.isArray(value.tableStack) &&
+    value.tableStack.every((s: unknown) => isObject(s) && typeof s.playerId === 'string' && playerIds.includes(s.playerId) && isCardList(s.cards)) &&
+    isInteger(value.roundNumber) && value.roundNumber >= 1 &&
+    Array.isArray(value.logs) && value.logs.every((log: unknown) => isObject(log) && isObject(log.message)) &&
+    Array.isArray(value.events) && value.events.every(isGameEvent) &&
+    isObject(value.rules) && isInteger(value.rules.minLevel) && isInteger(value.rules.maxLevel) &&
+    isObject(value.rules.scoring) && Array.isArray(value.rules.scoring.tieBreakers) &&
+    typeof value.rules.opening === 'string' &&
+    isObject(value.rules.clock) && typeof value.rules.clock.onTimeout === 'string' &&
+    isObject(value.mashedThisRound) &&
+    isObject(value.mashesThisRound) &&
+    Array.isArray(value.noticedMashers) &&
+    typeof value.challengeOpen === 'boolean' &&
+    isInteger(value.seed) &&
+    isInteger(value.rngState) &&
+    typeof value.practice === 'boolean' &&
+    typeof value.undoUsed === 'boolean';
+};
+
+const isClock = (value: unknown): value is TurnClock =>
+  isObject(value) &&
+  (value.turnKey === null || typeof value.turnKey === 'string') &&
+  Number.isFinite(value.turnMs) &&
+  isObject(value.banks) && Object.values(value.banks).every(Number.isFinite) &&
+  typeof value.paused === 'boolean';
+
+// --- Storage ---
+
+export const saveGame = (game: GameState, clock: TurnClock) => {
+  const save: SavedGame = { version: SAVE_VERSION, savedAt: Date.now(), game, clock };
+  try {
+    localStorage.setItem(SAVE_KEY, JSON.stringify(save));
+  } catch {
+    // Storage full or disabled: the game keeps running, it just cannot be resumed
+  }
+};
+
+export const clearSave = () => {
+  try {
+    localStorage.removeItem(SAVE_KEY);
+  } catch {
+    // Nothing to clear
+  }
+};
+
+export const migrateSave = (raw: unknown): SavedGame | null => {
+  if (!isObject(raw) || !isInteger(raw.version) || raw.version < 1 || raw.version > SAVE_VERSION) return null;
+
+  let save: SaveData | null = raw;
+  for (let version = raw.version; save && version < SAVE_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    const migrated: SaveData | null = migrate ? migrate(save) : null;
+    save = migrated && { ...migrated, version: version + 1 };
+  }
+
+  if (!save || !isGameState(save.game) || !isClock(save.clock)) return null;
+  return {
+    version: SAVE_VERSION,
+    savedAt: typeof save.savedAt === 'number' && Number.isFinite(save.savedAt) ? save.savedAt : 0,
+    game: save.game,
+    clock: save.clock,
+  };
+};
+
+// Returns null when there is no save, or when it is corrupted (which also deletes it)
+export const loadGame = (): SavedGame | null => {
+  let text: string | null = null;
+  try {
+    text = localStorage.getItem(SAVE_KEY);
+  } catch {
+    return null;
+  }
+  if (!text) return null;
+
+  try {
+    const save = migrateSave(JSON.parse(text));
+    if (save && save.game.phase !== GamePhase.GAME_END) return save;
+  } catch {
+    // Unparseable JSON falls through to the cleanup below
+  }
+  clearSave();
+  return null;
+};
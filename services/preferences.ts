@@ -0,0 +1,61 @@
+// --- Saved Preferences ---
+// One choice for the whole app (language, contrast, hints, key bindings, names at setup), kept in
+// localStorage under its own key and cached in the module. A missing or unreadable value falls back
+// to the default; where there is no storage, e.g. on the server or with storage disabled, a choice
+// lasts until the page is closed.
+
+export interface PreferenceFormat<T> {
+  parse: (text: string) => T | null; // null: not a value this preference accepts
+  format: (value: T) => string;
+}
+
+export interface Preference<T> {
+  get: () => T;
+  set: (value: T) => void;
+  subscribe: (listener: () => void) => () => void; // Returns the unsubscribe function, as useSyncExternalStore expects
+}
+
+export const ON_OFF_FORMAT: PreferenceFormat<boolean> = {
+  parse: text => (text === 'on' ? true : text === 'off' ? false : null),
+  format: value => (value ? 'on' : 'off'),
+};
+
+// Stored as JSON; `parse` checks the decoded data
+export const jsonFormat = <T>(parse: (data: unknown) => T | null): PreferenceFormat<T> => ({
+  parse: text => parse(JSON.parse(text)),
+  format: value => JSON.stringify(value),
+});
+
+export const createPreference = <T>(key: string, fallback: T, { parse, format }: PreferenceFormat<T>): Preference<T> => {
+  const load = () => {
+    try {
+      const text = localStorage.getItem(key);
+      return (text === null ? null : parse(text)) ?? fallback;
+    } catch {
+      return fallback;
+    }
+  };
+
+  let value = load();
+  const listeners = new Set<() => void>();
+
+  return {
+    get: () => value,
+    set: next => {
+      if (next === value) return;
+      value = next;
+      try {
+        localStorage.setItem(key, format(next));
+      } catch {
+        // Kept in memory only
+      }
+      listeners.forEach(listener => listener());
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
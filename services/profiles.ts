@@ -0,0 +1,48 @@
+import { t } from './i18n';
+import { createPreference, jsonFormat } from './preferences';
+
+// --- Local Player Profiles ---
+// A name typed at a human seat on the setup screen finds or creates a profile with a stored id, and
+// ratings are kept by that id. A seat left unnamed plays for that setup seat's own profile, so neither
+// the seat label nor the interface language decides whose rating a game counts for.
+
+const PROFILES_KEY = 'endgame-resource-battle:profiles';
+const SEAT_NAMES_KEY = 'endgame-resource-battle:seat-names';
+const SEAT_PROFILE_PREFIX = 'seat-';
+
+export interface PlayerProfile {
+  id: string;
+  name: string;
+}
+
+const isProfile = (value: unknown): value is PlayerProfile =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as PlayerProfile).id === 'string' && typeof (value as PlayerProfile).name === 'string';
+
+const profilesPreference = createPreference<PlayerProfile[]>(PROFILES_KEY, [], jsonFormat(data =>
+  Array.isArray(data) ? data.filter(isProfile) : null
+));
+
+// Names match ignoring case and surrounding spaces
+export const getProfile = (name: string): PlayerProfile => {
+  const trimmed = name.trim();
+  const profiles = profilesPreference.get();
+  const existing = profiles.find(p => p.name.toLocaleLowerCase() === trimmed.toLocaleLowerCase());
+  if (existing) return existing;
+  const profile = { id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`, name: trimmed };
+  profilesPreference.set([...profiles, profile]);
+  return profile;
+};
+
+export const getSeatProfileId = (seat: number) => `${SEAT_PROFILE_PREFIX}${seat + 1}`;
+
+// The name a profile is listed under, in the current language for unnamed seats
+export const getProfileName = (id: string) =>
+  id.startsWith(SEAT_PROFILE_PREFIX)
+    ? t('seat.human', { seat: id.slice(SEAT_PROFILE_PREFIX.length) })
+    : profilesPreference.get().find(p => p.id === id)?.name ?? id;
+
+// The names last typed at each setup seat, offered again the next time
+export const seatNamesPreference = createPreference<Record<number, string>>(SEAT_NAMES_KEY, {}, jsonFormat(data =>
+  typeof data === 'object' && data !== null ? (data as Record<number, string>) : null
+));
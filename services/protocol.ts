@@ -0,0 +1,70 @@
+import { GameAction, GameEvent, GamePhase, GameState, Message, RulePreset } from '../types';
+
+// --- Online Protocol ---
+// Messages exchanged between the React client and the game server (server/index.ts), as JSON over
+// a WebSocket. The server owns the game: clients only send intents for their own seat and render
+// the snapshots they get back, which never contain another player's hand or the random state.
+
+export const DEFAULT_SERVER_PORT = 8787;
+export const DEFAULT_SERVER_URL = `ws://localhost:${DEFAULT_SERVER_PORT}`;
+
+type SeatAction = Extract<GameAction, { type: 'PLAY' | 'PASS' | 'DECLARE_REQUIREMENT' | 'MASH' | 'CHALLENGE' }>;
+
+// What a seat may ask for; the server fills in the player id and runs timeouts and bots itself
+export type PlayerIntent<A = SeatAction> = A extends SeatAction ? Omit<A, 'playerId'> : never;
+
+export type ClientMessage =
+  | { type: 'CREATE_ROOM'; name: string; playerCount: number; rulePreset: RulePreset }
+  | { type: 'JOIN_ROOM'; roomId: string; name: string }
+  | { type: 'RESUME'; roomId: string; token: string }
+  | { type: 'START_GAME' }
+  | { type: 'INTENT'; intent: PlayerIntent }
+  | { type: 'LEAVE' };
+
+export interface LobbySeat {
+  seat: number;
+  name: string | null; // null for an open seat, which a bot takes when the game starts
+  connected: boolean;
+}
+
+export interface LobbySnapshot {
+  roomId: string;
+  hostSeat: number;
+  rulePreset: RulePreset;
+  seats: LobbySeat[];
+  started: boolean;
+}
+
+export type ServerMessage =
+  | { type: 'JOINED'; roomId: string; seat: number; token: string }
+  | { type: 'LOBBY'; lobby: LobbySnapshot }
+  | { type: 'SNAPSHOT'; game: GameState; handSizes: Record<string, number>; turnTimeLeftMs: number | null }
+  | { type: 'ERROR'; message: Message }; // Translated by the client, in its own language
+
+// The view of the game one seat is allowed to see. Other hands are emptied (their sizes are sent
+// separately), the seed and generator state are zeroed because they would reveal every deal and
+// mash roll, and events that expose hidden cards are trimmed. A finished game is sent in full so
+// players can watch and export the replay.
+export const redactState = (state: GameState, playerId: string): GameState => {
+  if (state.phase === GamePhase.GAME_END) return state;
+  const ownHand = state.players.find(p => p.id === playerId)?.hand ?? [];
+  return {
+    ...state,
+    players: state.players.map(p => (p.id === playerId ? p : { ...p, hand: [] })),
+    // Which cards were mashed is exactly what a challenge gambles on
+    mashedThisRound: Object.fromEntries(
+      Object.entries(state.mashedThisRound).filter(([id]) => ownHand.some(c => c.id === id))
+    ),
+    mashesThisRound: { [playerId]: state.mashesThisRound[playerId] ?? 0 },
+    events: state.events.flatMap((event): GameEvent[] => {
+      if (event.type === 'DEAL') return [{ ...event, hands: { [playerId]: event.hands[playerId] ?? [] } }];
+      if (event.type === 'MASH' && event.playerId !== playerId) return [];
+      return [event];
+    }),
+    seed: 0,
+    rngState: 0,
+  };
+};
+
+export const getHandSizes = (state: GameState): Record<string, number> =>
+  Object.fromEntries(state.players.map(p => [p.id, p.hand.length]));
@@ -0,0 +1,97 @@
+import { GamePhase, GameState, Player } from '../types';
+import { ELO_INITIAL, ELO_K } from '../constants';
+import { formatBotProfile } from './botProfiles';
+import { getRanks } from './scoring';
+import { getProfileName } from './profiles';
+import { t } from './i18n';
+
+// --- Elo Ratings ---
+// Every finished local game updates the ratings kept in localStorage, unless a move was taken back
+// in it (services/undo.ts). A game with several players counts as one pairwise result per pair of seats,
+// ordered by the final standings (services/scoring.ts). K is split across the opponents so a big table moves ratings no more than a duel.
+// Bots are rated per profile (difficulty and personality), people by their local player profile
+// (services/profiles.ts). The listed name is refreshed after each game; it never decides the key.
+
+const RATINGS_KEY = 'endgame-resource-battle:ratings';
+
+export interface Rating {
+  key: string;
+  name: string;
+  rating: number;
+  games: number;
+  wins: number;
+}
+
+// A human seat dealt without a profile (a game saved before profiles existed) is rated by its seat id
+export const getRatingKey = (player: Pick<Player, 'id' | 'isHuman' | 'bot' | 'profileId'>) =>
+  player.isHuman || !player.bot ? `human:${player.profileId ?? player.id}` : `bot:${player.bot.difficulty}:${player.bot.personality}`;
+
+const getRatingName = (player: Pick<Player, 'name' | 'isHuman' | 'bot' | 'profileId'>) => {
+  if (player.bot && !player.isHuman) return t('rating.botName', { profile: formatBotProfile(player.bot) });
+  return player.profileId ? getProfileName(player.profileId) : player.name;
+};
+
+export const loadRatings = (): Record<string, Rating> => {
+  try {
+    const text = localStorage.getItem(RATINGS_KEY);
+    const data = text ? JSON.parse(text) : {};
+    return typeof data === 'object' && data !== null ? data : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveRatings = (ratings: Record<string, Rating>) => {
+  try {
+    localStorage.setItem(RATINGS_KEY, JSON.stringify(ratings));
+  } catch {
+    // Storage full or disabled: ratings just do not persist
+  }
+};
+
+export const clearRatings = () => {
+  try {
+    localStorage.removeItem(RATINGS_KEY);
+  } catch {
+    // Nothing to clear
+  }
+};
+
+const expectedScore = (rating: number, opponent: number) => 1 / (1 + Math.pow(10, (opponent - rating) / 400));
+
+// 1 when `a` finished ahead of `b`, 0.5 when they share a rank
+const pairScore = (ranks: Record<string, number>, a: Player, b: Player) =>
+  ranks[a.id] === ranks[b.id] ? 0.5 : ranks[a.id] < ranks[b.id] ? 1 : 0;
+
+export const applyGameResult = (ratings: Record<string, Rating>, game: GameState): Record<string, Rating> => {
+  const next = { ...ratings };
+  const entries = game.players.map(player => {
+    const key = getRatingKey(player);
+    return { player, key, before: ratings[key]?.rating ?? ELO_INITIAL };
+  });
+  const k = ELO_K / Math.max(1, game.players.length - 1);
+  const ranks = getRanks(game);
+
+  entries.forEach(({ player, key, before }) => {
+    // Two seats with the same bot profile say nothing about that profile
+    const delta = entries
+      .filter(other => other.key !== key)
+      .reduce((sum, other) => sum + k * (pairScore(ranks, player, other.player) - expectedScore(before, other.before)), 0);
+    const current = next[key] ?? { key, name: '', rating: ELO_INITIAL, games: 0, wins: 0 };
+    next[key] = {
+      ...current,
+      name: getRatingName(player),
+      rating: current.rating + delta,
+      games: current.games + 1,
+      wins: current.wins + (player.id === game.winnerId ? 1 : 0),
+    };
+  });
+  return next;
+};
+
+// A game cut off before its end has no standings to rate
+export const recordRatedGame = (game: GameState) => {
+  if (game.phase === GamePhase.GAME_END && !game.undoUsed) saveRatings(applyGameResult(loadRatings(), game));
+};
+
+export const getLeaderboard = (): Rating[] => Object.values(loadRatings()).sort((a, b) => b.rating - a.rating);
@@ -0,0 +1,206 @@
+import { BotSettings, Card, GameEvent, GameState, Message, PlayedSet, Player, RoundRequirement } from '../types';
+import { RESOURCE_CONFIG } from '../constants';
+import { describeRequirement } from './gameLogic';
+import { msg } from './i18n';
+import { isBotSettings, isGameEvent, isObject, upgradeLegacyEvent } from './persistence';
+
+// --- Match Recording ---
+// A recording is the player list plus the engine's event stream. Replaying does not re-run the
+// rules: each event carries its own effect (cards played, level after a mash, round winner), so
+// frames are rebuilt by applying those effects to the dealt hands one event at a time.
+
+const RECORDING_FORMAT = 'endgame-resource-battle/recording';
+const RECORDING_VERSION = 2;
+
+export interface RecordedPlayer {
+  id: string;
+  name: string;
+  isHuman: boolean;
+  bot?: BotSettings;
+}
+
+export interface MatchRecording {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  seed: number;
+  recordedAt: number;
+  players: RecordedPlayer[];
+  events: GameEvent[];
+}
+
+export interface ReplayFrame {
+  event: GameEvent;
+  players: Player[];
+  requirement: RoundRequirement | null;
+  tableStack: PlayedSet[];
+  dealerId: string | null;
+  winnerId: string | null;
+  description: Message;
+}
+
+export const createRecording = (state: GameState): MatchRecording => ({
+  format: RECORDING_FORMAT,
+  version: RECORDING_VERSION,
+  seed: state.seed,
+  recordedAt: Date.now(),
+  players: state.players.map(({ id, name, isHuman, bot }) => ({ id, name, isHuman, bot })),
+  events: state.events,
+});
+
+const isRecordedPlayer = (value: unknown): value is RecordedPlayer =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.isHuman === 'boolean' &&
+  (value.bot === undefined || isBotSettings(value.bot));
+
+// Returns null for anything that is not a recording this version can play back. Every event is
+// checked against its type, the same way saves are, so a hand-edited file cannot break playback.
+// Version 1 recordings named requirement types by their Chinese labels; they are upgraded on load.
+export const parseRecording = (text: string): MatchRecording | null => {
+  try {
+    const data: unknown = JSON.parse(text);
+    if (!isObject(data) || data.format !== RECORDING_FORMAT || (data.version !== 1 && data.version !== RECORDING_VERSION)) return null;
+    if (typeof data.seed !== 'number' || !Number.isInteger(data.seed)) return null;
+    if (!Array.isArray(data.players) || !data.players.every(isRecordedPlayer) || !Array.isArray(data.events)) return null;
+    const events: unknown[] = data.version === 1 ? data.events.map(upgradeLegacyEvent) : data.events;
+    if (!events.every(isGameEvent) || events[0]?.type !== 'DEAL') return null;
+    return {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      seed: data.seed,
+      recordedAt: typeof data.recordedAt === 'number' ? data.recordedAt : 0,
+      players: data.players,
+      events,
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const downloadRecording = (recording: MatchRecording) => {
+  const blob = new Blob([JSON.stringify(recording, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `replay-${recording.seed}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- Playback ---
+
+const describeCards = (cards: Card[]) =>
+  cards.map(c => `${RESOURCE_CONFIG[c.type].icon}${c.level}`).join(' ');
+
+const describeEvent = (event: GameEvent, nameOf: (id: string) => string): Message => {
+  switch (event.type) {
+    case 'DEAL':
+      return msg('replay.deal', { name: nameOf(event.dealerId) });
+    case 'REQUIREMENT':
+      return msg('log.requirement', { name: nameOf(event.playerId), requirement: describeRequirement(event.requirement) });
+    case 'PLAY':
+      return msg('replay.play', { name: nameOf(event.playerId), cards: describeCards(event.cards) });
+    case 'PASS':
+      return msg('log.passed', { name: nameOf(event.playerId) });
+    case 'MASH':
+      return msg('replay.mash', { name: nameOf(event.playerId), before: event.before, after: event.after });
+    case 'CHALLENGE':
+      return event.caught
+        ? msg('replay.challengeCaught', { challenger: nameOf(event.challengerId), target: nameOf(event.targetId), cards: describeCards(event.restored) })
+        : msg('replay.challengeFailed', { challenger: nameOf(event.challengerId), target: nameOf(event.targetId) });
+    case 'TIMEOUT':
+      return msg('replay.timeout', { name: nameOf(event.playerId) });
+    case 'ROUND_END':
+      return msg('log.roundEnd', { round: event.round, name: nameOf(event.winnerId) });
+    case 'GAME_END':
+      return msg('replay.gameEnd', { name: nameOf(event.winnerId) });
+  }
+};
+
+const applyEvent = (frame: Omit<ReplayFrame, 'event' | 'description'>, event: GameEvent, index: number) => {
+  const updatePlayer = (id: string, patch: (p: Player) => Partial<Player>) =>
+    frame.players.map(p => (p.id === id ? { ...p, ...patch(p) } : p));
+
+  switch (event.type) {
+    case 'DEAL':
+      return {
+        ...frame,
+        players: frame.players.map(p => ({ ...p, hand: event.hands[p.id] ?? [], medals: 0, passedThisRound: false })),
+        dealerId: event.dealerId,
+      };
+    case 'REQUIREMENT':
+      return {
+        ...frame,
+        requirement: event.requirement,
+        tableStack: [],
+        players: frame.players.map(p => ({ ...p, passedThisRound: false })),
+      };
+    case 'PLAY': {
+      const ids = event.cards.map(c => c.id);
+      return {
+        ...frame,
+        players: updatePlayer(event.playerId, p => ({ hand: p.hand.filter(c => !ids.includes(c.id)) })),
+        tableStack: [...frame.tableStack, { playerId: event.playerId, cards: event.cards, timestamp: index }],
+      };
+    }
+    case 'PASS':
+      return { ...frame, players: updatePlayer(event.playerId, () => ({ passedThisRound: true })) };
+    case 'MASH':
+      return {
+        ...frame,
+        players: updatePlayer(event.playerId, p => ({
+          hand: p.hand.map(c => (c.id === event.cardId ? { ...c, level: event.after } : c)),
+        })),
+      };
+    case 'CHALLENGE': {
+      if (!event.caught) {
+        return {
+          ...frame,
+          players: updatePlayer(event.challengerId, p => ({ medals: p.medals - (event.medalLost ? 1 : 0), passedThisRound: true })),
+        };
+      }
+      return {
+        ...frame,
+        players: updatePlayer(event.targetId, p => ({
+          hand: [...p.hand, ...event.restored],
+          medals: p.medals - (event.medalLost ? 1 : 0),
+          passedThisRound: true,
+        })),
+        tableStack: frame.tableStack.slice(0, -1),
+      };
+    }
+    case 'TIMEOUT':
+      return frame;
+    case 'ROUND_END':
+      return {
+        ...frame,
+        players: frame.players.map(p => ({
+          ...p,
+          medals: p.id === event.winnerId ? p.medals + 1 : p.medals,
+          passedThisRound: false,
+        })),
+        requirement: null,
+        tableStack: [],
+        dealerId: event.winnerId,
+      };
+    case 'GAME_END':
+      return { ...frame, winnerId: event.winnerId };
+  }
+};
+
+export const buildReplayFrames = (recording: MatchRecording): ReplayFrame[] => {
+  const nameOf = (id: string) => recording.players.find(p => p.id === id)?.name ?? id;
+  let frame: Omit<ReplayFrame, 'event' | 'description'> = {
+    players: recording.players.map(p => ({ ...p, hand: [], medals: 0, passedThisRound: false })),
+    requirement: null,
+    tableStack: [],
+    dealerId: null,
+    winnerId: null,
+  };
+
+  return recording.events.map((event, index) => {
+    frame = applyEvent(frame, event, index);
+    return { ...frame, event, description: describeEvent(event, nameOf) };
+  });
+};
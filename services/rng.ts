@@ -0,0 +1,42 @@
+// --- Seeded Random Number Generator ---
+// mulberry32: tiny, fast and good enough for shuffling cards. The whole generator
+// is a single 32-bit integer, so it can live inside serializable game state.
+
+export interface Rng {
+  next: () => number; // [0, 1)
+  int: (min: number, max: number) => number; // inclusive on both ends
+  getState: () => number;
+}
+
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min, max) => Math.floor(next() * (max - min + 1)) + min,
+    getState: () => state,
+  };
+};
+
+// The only place allowed to touch Math.random: picking a seed when none was given.
+export const randomSeed = () => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+// Accepts plain numbers ("12345") or any text ("lucky deal"), so seeds are easy to share.
+export const parseSeed = (input: string): number => {
+  const trimmed = input.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+
+  let hash = 2166136261;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash = Math.imul(hash ^ trimmed.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+};
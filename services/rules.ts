@@ -0,0 +1,94 @@
+import { ClockRules, Message, PlayedSet, RuleSet } from '../types';
+import { BOMB_SIZE, DEFAULT_RULES } from '../constants';
+import { msg, t } from './i18n';
+
+// --- Rule Sets ---
+// Everything a house rule can change is read through these helpers, so the engine, the validator,
+// the move generator and the bots all agree on what a legal play is and who leads the round.
+
+export const sumLevels = (cards: { level: number }[]) => cards.reduce((sum, c) => sum + c.level, 0);
+
+// Four or more cards of one level, whatever their types
+export const isBomb = (cards: { level: number }[]) =>
+  cards.length >= BOMB_SIZE && cards.every(c => c.level === cards[0].level);
+
+// Positive when `cards` is stronger than `previous`, zero on a tie. A bomb outranks any other play;
+// a bigger bomb outranks a smaller one; everything else is compared by total points.
+export const comparePlays = (cards: { level: number }[], previous: { level: number }[]) => {
+  const bomb = isBomb(cards);
+  if (bomb !== isBomb(previous)) return bomb ? 1 : -1;
+  if (bomb && cards.length !== previous.length) return cards.length - previous.length;
+  return sumLevels(cards) - sumLevels(previous);
+};
+
+export const beatsLastPlay = (cards: { level: number }[], lastPlayed: PlayedSet | null, rules: RuleSet = DEFAULT_RULES) => {
+  if (!lastPlayed) return true;
+  const comparison = comparePlays(cards, lastPlayed.cards);
+  return comparison > 0 || (comparison === 0 && rules.beat === 'MATCH_OR_BEAT');
+};
+
+// The smallest total a non-bomb play must reach to answer `lastPlayed`
+export const minimumSum = (lastPlayed: PlayedSet | null, rules: RuleSet = DEFAULT_RULES) => {
+  if (!lastPlayed) return 0;
+  const lastSum = sumLevels(lastPlayed.cards);
+  return rules.beat === 'STRICTLY_BEAT' ? lastSum + 1 : lastSum;
+};
+
+// The play currently winning the round. Every play at least ties the one before it, so the top play
+// is the last one; when ties go to the earlier player, the first play of the final tie keeps the lead.
+export const getRoundLeader = (tableStack: PlayedSet[], rules: RuleSet = DEFAULT_RULES): PlayedSet | null => {
+  if (tableStack.length === 0) return null;
+  let leader = tableStack.length - 1;
+  if (rules.beat === 'STRICTLY_BEAT' || rules.tieWinner === 'LATER') return tableStack[leader];
+  while (leader > 0 && comparePlays(tableStack[leader].cards, tableStack[leader - 1].cards) === 0) leader--;
+  return tableStack[leader];
+};
+
+export const isRequirementCountAllowed = (count: number, rules: RuleSet = DEFAULT_RULES) =>
+  count >= rules.minRequirementCount && (rules.maxRequirementCount === null || count <= rules.maxRequirementCount);
+
+export const clampRequirementCount = (count: number, rules: RuleSet = DEFAULT_RULES) =>
+  Math.max(rules.minRequirementCount, rules.maxRequirementCount === null ? count : Math.min(rules.maxRequirementCount, count));
+
+export const describeCountRange = (rules: RuleSet): Message =>
+  rules.maxRequirementCount === null
+    ? msg('rules.countAtLeast', { min: rules.minRequirementCount })
+    : msg('rules.countBetween', { min: rules.minRequirementCount, max: rules.maxRequirementCount });
+
+export const describeClock = (clock: ClockRules): Message => {
+  const turn = msg('rules.clock', { dealer: clock.dealerSeconds, play: clock.playSeconds });
+  return clock.bankSeconds > 0 ? msg('rules.clockBank', { turn, bank: clock.bankSeconds }) : turn;
+};
+
+// One line per rule, for the sidebar and the setup screen
+export const describeRules = (rules: RuleSet): { label: string; value: string }[] => [
+  { label: t('rules.label.preset'), value: t(`preset.${rules.preset}.label`) },
+  { label: t('rules.label.levels'), value: t('rules.levels', { min: rules.minLevel, max: rules.maxLevel }) },
+  { label: t('rules.label.opening'), value: t(`rules.opening.${rules.opening}`) },
+  { label: t('rules.label.count'), value: t(describeCountRange(rules)) },
+  { label: t('rules.label.beat'), value: t(`rules.beat.${rules.beat}`) },
+  ...(rules.beat === 'MATCH_OR_BEAT'
+    ? [{ label: t('rules.label.tie'), value: t(`rules.tie.${rules.tieWinner}`) }]
+    : []),
+  { label: t('rules.label.bomb'), value: t('rules.bomb', { size: BOMB_SIZE }) },
+  { label: t('rules.label.pass'), value: t(rules.passLocksOut ? 'rules.pass.locked' : 'rules.pass.open') },
+  { label: t('rules.label.clock'), value: t(describeClock(rules.clock)) },
+  { label: t('rules.label.timeout'), value: t(`rules.timeout.${rules.clock.onTimeout}`) },
+  {
+    label: t('rules.label.scoring'),
+    value: t('rules.scoring', {
+      medal: rules.scoring.medalPoints,
+      bonus: rules.scoring.goOutBonus,
+      penalty: rules.scoring.handValuePenalty,
+    }),
+  },
+  { label: t('rules.label.tieBreak'), value: rules.scoring.tieBreakers.map(b => t(`tieBreaker.${b}`)).join(' > ') },
+  {
+    label: t('rules.label.end'),
+    value: [
+      t('rules.end.out'),
+      rules.gameEnd.medalTarget !== null ? t('rules.end.medals', { medals: rules.gameEnd.medalTarget }) : null,
+      rules.gameEnd.roundLimit !== null ? t('rules.end.rounds', { rounds: rules.gameEnd.roundLimit }) : null,
+    ].filter(Boolean).join(t('rules.end.separator')),
+  },
+];
@@ -0,0 +1,68 @@
+import { GameState, Player, TieBreaker } from '../types';
+import { calculateHandValue } from './gameLogic';
+
+// --- Final Scoring ---
+// A finished game is ranked by points: medals are worth the most, emptying your hand earns a bonus,
+// and every point of level still in hand costs a little. The weights come from the rule set.
+// Level totals are settled by the rule set's tie-breakers in order; players still level share a rank.
+
+export interface ScoreLine {
+  player: Player;
+  medals: number;
+  medalPoints: number;
+  wentOut: boolean;
+  goOutBonus: number;
+  handValue: number;
+  handPenalty: number;
+  total: number;
+  lastMedalRound: number; // 0 when the player never won a round
+  rank: number; // 1-based; tied players share the better rank
+}
+
+const scorePlayer = (state: GameState, player: Player): Omit<ScoreLine, 'rank'> => {
+  const { medalPoints, goOutBonus, handValuePenalty } = state.rules.scoring;
+  const wentOut = player.hand.length === 0;
+  const handValue = calculateHandValue(player.hand);
+  const won = state.events.filter(e => e.type === 'ROUND_END' && e.winnerId === player.id);
+  const line = {
+    player,
+    medals: player.medals,
+    medalPoints: player.medals * medalPoints,
+    wentOut,
+    goOutBonus: wentOut ? goOutBonus : 0,
+    handValue,
+    handPenalty: handValue * handValuePenalty,
+    lastMedalRound: won.length > 0 ? won[won.length - 1].round : 0,
+  };
+  return { ...line, total: line.medalPoints + line.goOutBonus - line.handPenalty };
+};
+
+// Positive when `a` should rank ahead of `b`
+const TIE_BREAKERS: Record<TieBreaker, (a: Omit<ScoreLine, 'rank'>, b: Omit<ScoreLine, 'rank'>) => number> = {
+  MEDALS: (a, b) => a.medals - b.medals,
+  WENT_OUT: (a, b) => Number(a.wentOut) - Number(b.wentOut),
+  LOWEST_HAND_VALUE: (a, b) => b.handValue - a.handValue,
+  LATEST_MEDAL: (a, b) => a.lastMedalRound - b.lastMedalRound,
+};
+
+// Lines from first to last place
+export const scoreGame = (state: GameState): ScoreLine[] => {
+  const compare = (a: Omit<ScoreLine, 'rank'>, b: Omit<ScoreLine, 'rank'>) => {
+    if (a.total !== b.total) return b.total - a.total;
+    for (const breaker of state.rules.scoring.tieBreakers) {
+      const diff = TIE_BREAKERS[breaker](a, b);
+      if (diff !== 0) return -diff;
+    }
+    return 0;
+  };
+  const sorted = state.players.map(p => scorePlayer(state, p)).sort(compare);
+  // Sorting is stable, so perfectly tied players keep seat order and take the rank of the first of them
+  return sorted.reduce<ScoreLine[]>((lines, line, i) => {
+    const rank = i > 0 && compare(sorted[i - 1], line) === 0 ? lines[i - 1].rank : i + 1;
+    return [...lines, { ...line, rank }];
+  }, []);
+};
+
+// Rank by player id, for comparing two players without rescoring
+export const getRanks = (state: GameState): Record<string, number> =>
+  Object.fromEntries(scoreGame(state).map(line => [line.player.id, line.rank]));
@@ -0,0 +1,185 @@
+import { Card, GamePhase, GameState, Player, ResourceType, RoundRequirement, RequirementType, RuleSet, SearchBudget } from '../types';
+import { RESOURCE_CONFIG, DEFAULT_BOT_SETTINGS, BOMB_SIZE } from '../constants';
+import { calculateHandValue } from './gameLogic';
+import { getCheapestMove, getLegalMoves } from './moveGenerator';
+import { applyAction, getLastPlayed, isTurnPhase } from './engine';
+import { Rng } from './rng';
+import { isRequirementCountAllowed } from './rules';
+
+// --- Search Bot ---
+// Determinized Monte Carlo: each iteration deals the opponents a plausible hand, applies one
+// candidate decision and plays the game forward with the greedy bot for a few rounds. Candidates
+// are picked with UCB1, so promising moves get more playouts than obviously bad ones.
+
+export type SearchDecision =
+  | { type: 'PLAY'; cards: Card[]; requirement?: RoundRequirement } // requirement is set when opening as dealer
+  | { type: 'PASS' };
+
+const MAX_MOVE_CANDIDATES = 6;
+const MAX_ROLLOUT_ACTIONS = 400;
+const UCB_EXPLORATION = 0.7;
+
+// --- Determinization ---
+
+// Hands are dealt independently per player (there is no shared deck), so the best model of the
+// cards we have not seen is the deal itself: types weighted by their usual count, levels uniform.
+const TYPE_WEIGHTS = (Object.values(ResourceType) as ResourceType[]).map(type => ({
+  type,
+  weight: (RESOURCE_CONFIG[type].min + RESOURCE_CONFIG[type].max) / 2,
+}));
+const TOTAL_TYPE_WEIGHT = TYPE_WEIGHTS.reduce((sum, t) => sum + t.weight, 0);
+
+const sampleType = (rng: Rng): ResourceType => {
+  let roll = rng.next() * TOTAL_TYPE_WEIGHT;
+  for (const t of TYPE_WEIGHTS) {
+    roll -= t.weight;
+    if (roll < 0) return t.type;
+  }
+  return TYPE_WEIGHTS[TYPE_WEIGHTS.length - 1].type;
+};
+
+const sampleHand = (owner: Player, rng: Rng, rules: RuleSet): Card[] =>
+  owner.hand.map((_, i) => ({ id: `${owner.id}-sim-${i}`, type: sampleType(rng), level: rng.int(rules.minLevel, rules.maxLevel) }));
+
+// Every seat becomes a Normal bot so playouts never recurse into another search
+const determinize = (state: GameState, meId: string, rng: Rng): GameState => ({
+  ...state,
+  players: state.players.map(p => ({
+    ...p,
+    isHuman: false,
+    bot: DEFAULT_BOT_SETTINGS,
+    hand: p.id === meId ? p.hand : sampleHand(p, rng, state.rules),
+  })),
+  rngState: Math.floor(rng.next() * 0x100000000) >>> 0,
+});
+
+// --- Candidates ---
+
+// Spread picks across the sum range: cheapest, strongest and a few in between
+const spreadMoves = (moves: Card[][]): Card[][] => {
+  if (moves.length <= MAX_MOVE_CANDIDATES) return moves;
+  const picked: Card[][] = [];
+  for (let i = 0; i < MAX_MOVE_CANDIDATES; i++) {
+    picked.push(moves[Math.round((i * (moves.length - 1)) / (MAX_MOVE_CANDIDATES - 1))]);
+  }
+  return picked;
+};
+
+const dealerCandidates = (player: Player, rules: RuleSet): SearchDecision[] => {
+  const requirements: RoundRequirement[] = [];
+
+  (Object.values(ResourceType) as ResourceType[]).forEach(resourceType => {
+    const owned = player.hand.filter(c => c.type === resourceType).length;
+    for (let count = 1; count <= Math.min(2, owned); count++) {
+      requirements.push({ type: RequirementType.SINGLE_FIXED, resourceType, count });
+    }
+    for (let count = 2; count <= Math.min(3, owned); count++) {
+      requirements.push({ type: RequirementType.SINGLE_ASC, resourceType, count });
+    }
+  });
+  for (let count = 2; count <= Math.min(3, player.hand.length); count++) {
+    requirements.push({ type: RequirementType.MIXED_ASC, count });
+    requirements.push({ type: RequirementType.SAME_LEVEL, count });
+  }
+  for (let count = 3; count <= Math.min(4, player.hand.length); count++) {
+    requirements.push({ type: RequirementType.RUN, count });
+  }
+  if (player.hand.length >= 4) {
+    requirements.push({ type: RequirementType.PAIRS, count: 4 });
+    requirements.push({ type: RequirementType.BOMB, count: BOMB_SIZE });
+  }
+
+  // Open each rule with its cheapest play; rules the hand or the rule set cannot satisfy drop out here
+  return requirements.flatMap(requirement => {
+    if (!isRequirementCountAllowed(requirement.count, rules)) return [];
+    const cards = getCheapestMove(player.hand, null, requirement, rules);
+    return cards ? [{ type: 'PLAY' as const, cards, requirement }] : [];
+  });
+};
+
+const playingCandidates = (state: GameState, player: Player): SearchDecision[] => {
+  if (!state.roundRequirement) return [];
+  const lastPlayed = getLastPlayed(state);
+  const moves = spreadMoves(getLegalMoves(player.hand, lastPlayed, state.roundRequirement, state.rules));
+  const candidates: SearchDecision[] = moves.map(cards => ({ type: 'PLAY', cards }));
+  if (lastPlayed) candidates.push({ type: 'PASS' });
+  return candidates;
+};
+
+// --- Playouts ---
+
+const applyDecision = (state: GameState, playerId: string, decision: SearchDecision): GameState => {
+  if (decision.type === 'PASS') return applyAction(state, { type: 'PASS', playerId });
+
+  let next = state;
+  if (decision.requirement) {
+    next = applyAction(next, { type: 'DECLARE_REQUIREMENT', playerId, requirement: decision.requirement });
+  }
+  return applyAction(next, { type: 'PLAY', playerId, cardIds: decision.cards.map(c => c.id) });
+};
+
+const rollout = (state: GameState, lastRound: number): GameState => {
+  let current = state;
+  for (let i = 0; i < MAX_ROLLOUT_ACTIONS && isTurnPhase(current.phase) && current.roundNumber <= lastRound; i++) {
+    const active = current.players[current.activePlayerIndex];
+    current = applyAction(current, { type: 'BOT_TURN', playerId: active.id });
+  }
+  return current;
+};
+
+// 1 for a won game, 0 for a lost one; unfinished playouts are judged on medal lead and cards left
+const evaluate = (state: GameState, meId: string): number => {
+  if (state.phase === GamePhase.GAME_END) return state.winnerId === meId ? 1 : 0;
+
+  const me = state.players.find(p => p.id === meId)!;
+  const others = state.players.filter(p => p.id !== meId);
+  const medalLead = me.medals - Math.max(...others.map(p => p.medals));
+  const cardLead = Math.min(...others.map(p => p.hand.length)) - me.hand.length;
+  const valueLead = (calculateHandValue(me.hand) - Math.max(...others.map(p => calculateHandValue(p.hand)))) / 100;
+
+  return Math.min(1, Math.max(0, 0.5 + 0.12 * medalLead + 0.01 * cardLead + 0.05 * valueLead));
+};
+
+// --- Entry Point ---
+
+export const searchDecision = (state: GameState, rng: Rng, budget: SearchBudget): SearchDecision | null => {
+  const me = state.players[state.activePlayerIndex];
+  const candidates = state.phase === GamePhase.DEALER_SELECTION
+    ? dealerCandidates(me, state.rules)
+    : playingCandidates(state, me);
+
+  if (candidates.length <= 1) return candidates[0] ?? null;
+
+  const visits = candidates.map(() => 0);
+  const totals = candidates.map(() => 0);
+  const lastRound = state.roundNumber + budget.rolloutRounds;
+  const deadline = budget.timeLimitMs > 0 ? Date.now() + budget.timeLimitMs : Infinity;
+
+  for (let iter = 0; iter < budget.iterations; iter++) {
+    if (Date.now() > deadline) break;
+
+    // UCB1: try everything once, then balance the best mean against rarely tried options
+    let pick = visits.indexOf(0);
+    if (pick === -1) {
+      let bestScore = -Infinity;
+      candidates.forEach((_, i) => {
+        const score = totals[i] / visits[i] + UCB_EXPLORATION * Math.sqrt(Math.log(iter) / visits[i]);
+        if (score > bestScore) {
+          bestScore = score;
+          pick = i;
+        }
+      });
+    }
+
+    const world = applyDecision(determinize(state, me.id, rng), me.id, candidates[pick]);
+    totals[pick] += evaluate(rollout(world, lastRound), me.id);
+    visits[pick]++;
+  }
+
+  // The most visited candidate is the most robust choice under UCB1
+  let best = 0;
+  visits.forEach((v, i) => {
+    if (v > visits[best] || (v === visits[best] && totals[i] > totals[best])) best = i;
+  });
+  return candidates[best];
+};
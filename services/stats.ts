@@ -0,0 +1,97 @@
+import { GameState, Player } from '../types';
+
+// --- Post-game Statistics ---
+// Everything here is read back from the event stream after the game, so the engine does not have
+// to keep counters and a loaded save or an online result is summarised the same way.
+
+export interface PlayerStats {
+  player: Player;
+  roundsWon: number;
+  plays: number;
+  passes: number;
+  averagePlay: number; // Mean level total of the player's plays, 0 without any
+  cardsLeft: number;
+  dealerRounds: number; // Rounds the player set the requirement for
+  dealerRoundsWon: number;
+  mashes: { upgraded: number; downgraded: number; unchanged: number };
+  timeouts: number;
+}
+
+// Medals held by every player once a round has been settled
+export interface MedalSnapshot {
+  round: number;
+  medals: Record<string, number>;
+}
+
+export const getPlayerStats = (state: GameState): PlayerStats[] => {
+  // The dealer of a round is whoever declared its requirement
+  const dealers: Record<number, string> = {};
+  state.events.forEach(e => {
+    if (e.type === 'REQUIREMENT') dealers[e.round] = e.playerId;
+  });
+
+  return state.players.map(player => {
+    const stats: PlayerStats = {
+      player,
+      roundsWon: 0,
+      plays: 0,
+      passes: 0,
+      averagePlay: 0,
+      cardsLeft: player.hand.length,
+      dealerRounds: Object.values(dealers).filter(id => id === player.id).length,
+      dealerRoundsWon: 0,
+      mashes: { upgraded: 0, downgraded: 0, unchanged: 0 },
+      timeouts: 0,
+    };
+    let playTotal = 0;
+
+    state.events.forEach(e => {
+      switch (e.type) {
+        case 'PLAY':
+          if (e.playerId !== player.id) return;
+          stats.plays++;
+          playTotal += e.cards.reduce((sum, c) => sum + c.level, 0);
+          return;
+        case 'PASS':
+          if (e.playerId === player.id) stats.passes++;
+          return;
+        case 'MASH':
+          if (e.playerId !== player.id) return;
+          if (e.after > e.before) stats.mashes.upgraded++;
+          else if (e.after < e.before) stats.mashes.downgraded++;
+          else stats.mashes.unchanged++;
+          return;
+        case 'TIMEOUT':
+          if (e.playerId === player.id) stats.timeouts++;
+          return;
+        case 'ROUND_END':
+          if (e.winnerId !== player.id) return;
+          stats.roundsWon++;
+          if (dealers[e.round] === player.id) stats.dealerRoundsWon++;
+          return;
+      }
+    });
+
+    return { ...stats, averagePlay: stats.plays > 0 ? playTotal / stats.plays : 0 };
+  });
+};
+
+// One snapshot per finished round, starting from zero before round 1; medals lost to challenges count
+export const getMedalTimeline = (state: GameState): MedalSnapshot[] => {
+  let medals: Record<string, number> = Object.fromEntries(state.players.map(p => [p.id, 0]));
+  const timeline: MedalSnapshot[] = [{ round: 0, medals }];
+
+  state.events.forEach(e => {
+    if (e.type === 'CHALLENGE' && e.medalLost) {
+      const loser = e.caught ? e.targetId : e.challengerId;
+      medals = { ...medals, [loser]: medals[loser] - 1 };
+    } else if (e.type === 'ROUND_END') {
+      medals = { ...medals, [e.winnerId]: medals[e.winnerId] + 1 };
+      timeline.push({ round: e.round, medals });
+    } else if (e.type === 'GAME_END' && timeline[timeline.length - 1].medals !== medals) {
+      // A game that ends mid-round still shows challenges settled after the last finished round
+      timeline.push({ round: e.round, medals });
+    }
+  });
+  return timeline;
+};
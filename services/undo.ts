@@ -0,0 +1,40 @@
+import { GameAction, GamePhase, GameState } from '../types';
+import { applyAction } from './engine';
+
+// --- Practice Undo ---
+// A practice game keeps the state from before every human move. Taking a move back restores that
+// state whole, so the bot replies, mash rolls, medals and log lines since then go with it. The
+// generator state is restored too: the same mash tried again rolls the same result.
+
+export interface UndoHistory {
+  game: GameState;
+  checkpoints: GameState[]; // Oldest first; one per human move
+}
+
+export type UndoAction = GameAction | { type: 'UNDO' };
+
+export const createUndoHistory = (game: GameState): UndoHistory => ({ game, checkpoints: [] });
+
+export const canUndo = (history: UndoHistory) =>
+  history.game.practice && history.game.phase !== GamePhase.GAME_END && history.checkpoints.length > 0;
+
+// Drop-in for `applyAction` that also records checkpoints and answers UNDO
+export const applyWithUndo = (history: UndoHistory, action: UndoAction): UndoHistory => {
+  if (action.type === 'UNDO') {
+    if (!canUndo(history)) return history;
+    const checkpoint = history.checkpoints[history.checkpoints.length - 1];
+    return { game: { ...checkpoint, undoUsed: true }, checkpoints: history.checkpoints.slice(0, -1) };
+  }
+
+  const previous = history.game;
+  const game = applyAction(previous, action);
+  if (game === previous) return history;
+
+  // Rejected moves only add an alert to the log; a move counts once it reaches the event stream
+  const isHumanMove = previous.players.some(p => p.id === action.playerId && p.isHuman) &&
+    game.events.length > previous.events.length;
+  return {
+    game,
+    checkpoints: previous.practice && isHumanMove ? [...history.checkpoints, previous] : history.checkpoints,
+  };
+};
@@ -1,3 +1,5 @@
+import type zhCN from './locales/zh-CN';
+
 export enum ResourceType {
   SOLDIER = 'Soldier',
   TOWER = 'Tower',
@@ -8,7 +10,57 @@ export enum ResourceType {
 export interface Card {
   id: string;
   type: ResourceType;
-  level: number; // 1-7
+  level: number; // From the rule set's minLevel to its maxLevel
+}
+
+export type BotStrategy = 'GREEDY' | 'SEARCH';
+
+export interface SearchBudget {
+  iterations: number; // Simulated playouts per decision
+  timeLimitMs: number; // Stop early after this long; 0 means iterations only (deterministic)
+  rolloutRounds: number; // How many rounds ahead each playout looks before scoring
+}
+
+export enum BotDifficulty {
+  EASY = 'EASY',
+  NORMAL = 'NORMAL',
+  HARD = 'HARD',
+}
+
+export enum BotPersonality {
+  BALANCED = 'BALANCED',
+  AGGRESSIVE = 'AGGRESSIVE',
+  HOARDER = 'HOARDER',
+  CHEATER = 'CHEATER',
+}
+
+// The human side of a mash: which minigame has to be cleared before the card is rolled
+export enum MashMinigame {
+  ALTERNATE = 'ALTERNATE',
+  RHYTHM = 'RHYTHM',
+  HOLD = 'HOLD',
+}
+
+// What a seat was configured with; see services/botProfiles.ts for what each choice does
+export interface BotSettings {
+  difficulty: BotDifficulty;
+  personality: BotPersonality;
+  budget?: SearchBudget; // Overrides the search budget of HARD bots
+}
+
+export type DealerStyle = 'ABUNDANT' | 'RANDOM' | 'LONG' | 'SHORT';
+export type MovePreference = 'CHEAPEST' | 'STRONGEST';
+
+// The concrete knobs a bot plays by, resolved from its difficulty and personality
+export interface BotBehavior {
+  strategy: BotStrategy;
+  movePreference: MovePreference;
+  holdLevel: number | null; // Hoarders will not spend cards at or above this level to beat a play
+  passChance: number; // Chance to pass on purpose even with a legal play
+  dealerStyle: DealerStyle;
+  cheatChance: number;
+  challengeChance: number; // Chance to challenge a play after seeing its author mash this round
+  thinkMs: number;
 }
 
 export interface Player {
@@ -18,25 +70,31 @@ export interface Player {
   hand: Card[];
   medals: number;
   passedThisRound: boolean;
+  bot?: BotSettings; // Absent for human seats
+  profileId?: string; // Local player profile (services/profiles.ts) a human seat is rated as
 }
 
+// Values are stable ids; display names come from the locale files
 export enum RequirementType {
-  SINGLE_FIXED = '单类型 (固定数量)',
-  SINGLE_ASC = '单类型 (点数递增)',
-  MIXED_ASC = '混合类型 (点数递增)',
+  SINGLE_FIXED = 'SINGLE_FIXED',
+  SINGLE_ASC = 'SINGLE_ASC',
+  MIXED_ASC = 'MIXED_ASC',
+  SAME_LEVEL = 'SAME_LEVEL',
+  RUN = 'RUN',
+  PAIRS = 'PAIRS',
+  BOMB = 'BOMB', // Can also be played into any round as an interrupt
 }
 
 export interface RoundRequirement {
   type: RequirementType;
   resourceType?: ResourceType; // For Single types
-  count: number; // How many cards required
-  description: string;
+  count: number; // How many cards required (a bomb round accepts any bomb)
 }
 
 export interface PlayedSet {
   playerId: string;
   cards: Card[];
-  timestamp: number;
+  timestamp: number; // Logical time: the index of the play's event in GameState.events, so the same actions always give the same state
 }
 
 export enum GamePhase {
@@ -47,8 +105,198 @@ export enum GamePhase {
   GAME_END = 'GAME_END',
 }
 
+// --- Text ---
+
+export type MessageKey = keyof typeof zhCN;
+export type MessageParam = string | number | Message;
+
+// Text kept as a locale key and its values until it is rendered (see services/i18n.ts)
+export interface Message {
+  key: MessageKey;
+  params?: Record<string, MessageParam>;
+}
+
 export interface LogEntry {
   id: string;
-  text: string;
+  message: Message;
   type: 'info' | 'action' | 'alert' | 'success';
-}
\ No newline at end of file
+}
+
+// Structured record of everything that happened, for tools that need more than log text
+export type GameEvent =
+  | { type: 'DEAL'; round: number; dealerId: string; hands: Record<string, Card[]> }
+  | { type: 'REQUIREMENT'; round: number; playerId: string; requirement: RoundRequirement }
+  | { type: 'PLAY'; round: number; playerId: string; cards: Card[] }
+  | { type: 'PASS'; round: number; playerId: string }
+  | { type: 'MASH'; round: number; playerId: string; cardId: string; before: number; after: number }
+  // `restored` are the revoked cards back at their pre-mash levels (empty for a false accusation);
+  // the medal, if any, is lost by the cheater when caught and by the challenger otherwise
+  | { type: 'CHALLENGE'; round: number; challengerId: string; targetId: string; caught: boolean; restored: Card[]; medalLost: boolean }
+  | { type: 'TIMEOUT'; round: number; playerId: string } // Followed by the move made on the player's behalf
+  | { type: 'ROUND_END'; round: number; winnerId: string }
+  | { type: 'GAME_END'; round: number; winnerId: string };
+
+// --- Keyboard ---
+
+// Table shortcuts; names are in the locale files under `keys.action.<id>`
+export enum KeyAction {
+  FOCUS_PREV = 'FOCUS_PREV',
+  FOCUS_NEXT = 'FOCUS_NEXT',
+  GROUP_PREV = 'GROUP_PREV',
+  GROUP_NEXT = 'GROUP_NEXT',
+  TOGGLE_CARD = 'TOGGLE_CARD',
+  CLEAR_SELECTION = 'CLEAR_SELECTION',
+  PLAY = 'PLAY',
+  PASS = 'PASS',
+  HINT = 'HINT',
+  CHALLENGE = 'CHALLENGE',
+  UNDO = 'UNDO',
+  TOGGLE_LOG = 'TOGGLE_LOG',
+  PAUSE = 'PAUSE',
+  SHOW_KEYS = 'SHOW_KEYS',
+}
+
+export type KeyBindings = Record<KeyAction, string>; // Action -> `KeyboardEvent.key`, lower-cased
+
+// --- Rule Sets ---
+
+export enum RulePreset {
+  CLASSIC = 'CLASSIC',
+  STRICT = 'STRICT',
+  DEFENDER = 'DEFENDER',
+  OPEN_TABLE = 'OPEN_TABLE',
+  SPRINT = 'SPRINT',
+  WIDE = 'WIDE',
+  DECLARED = 'DECLARED',
+}
+
+export type BeatRule = 'MATCH_OR_BEAT' | 'STRICTLY_BEAT'; // >= or > the previous sum
+export type TieWinner = 'LATER' | 'EARLIER'; // Who holds the lead after a tying play
+// How a round's requirement is set: read off the leader's opening play, or announced before it
+export type OpeningRule = 'INFER' | 'DECLARE';
+
+// What the engine does for a player whose time runs out. Whoever has to open a round always opens
+// with their smallest card instead, since there is nothing yet to pass on or concede.
+export type TimeoutAction =
+  | 'AUTO_PLAY' // The cheapest legal play, or a pass without one
+  | 'AUTO_PASS'
+  | 'FORFEIT_ROUND'; // The round goes to whoever leads it
+
+// Turn limits; see services/clock.ts
+export interface ClockRules {
+  dealerSeconds: number; // Per turn while the requirement is set
+  playSeconds: number; // Per turn during the round
+  bankSeconds: number; // Each player's reserve, spent once a turn's own time is up; 0 for none
+  onTimeout: TimeoutAction;
+}
+
+// A player running out of cards always ends the game; these add earlier finishes
+export interface GameEndCondition {
+  medalTarget: number | null; // First to this many medals wins
+  roundLimit: number | null; // Most medals after this many rounds wins
+}
+
+// Applied in order when final scores are level
+export type TieBreaker =
+  | 'MEDALS' // More medals
+  | 'WENT_OUT' // The player who emptied their hand
+  | 'LOWEST_HAND_VALUE' // Fewer points left in hand
+  | 'LATEST_MEDAL'; // Won a round more recently
+
+// Final score = medals × medalPoints + goOutBonus (if the hand was emptied) − hand value × handValuePenalty
+export interface ScoringRules {
+  medalPoints: number;
+  goOutBonus: number;
+  handValuePenalty: number; // Per point of level left in hand
+  tieBreakers: TieBreaker[];
+}
+
+export interface RuleSet {
+  preset: RulePreset;
+  beat: BeatRule;
+  tieWinner: TieWinner; // Only matters when ties are allowed
+  opening: OpeningRule;
+  minRequirementCount: number;
+  maxRequirementCount: number | null; // null: any number of cards
+  passLocksOut: boolean; // Whether a pass sits the player out for the rest of the round
+  clock: ClockRules;
+  gameEnd: GameEndCondition;
+  scoring: ScoringRules;
+  minLevel: number;
+  maxLevel: number;
+}
+
+export interface GameOptions {
+  playerCount?: number; // Table size, MIN_PLAYERS to MAX_PLAYERS; defaults to 4
+  humanSeats: number[]; // Seat indexes controlled by people; every other seat is a bot
+  bots?: Record<number, BotSettings>; // Per-seat bot profiles; unlisted bot seats play Normal / Balanced
+  names?: Record<number, string>; // Display names by seat, e.g. online players or match entrants
+  profiles?: Record<number, string>; // Local player profile ids by human seat
+  dealerSeat?: number; // First dealer; by default the seat with the strongest hand
+  rules?: RuleSet; // Defaults to the classic rules
+  practice?: boolean; // Lets humans take back their moves; see services/undo.ts
+}
+
+// --- Matches ---
+
+export type MatchFormat =
+  | { kind: 'BEST_OF'; games: number } // Most game wins; ends early once a majority is out of reach
+  | { kind: 'MEDAL_TARGET'; medals: number } // First to this many medals across games
+  | { kind: 'ROUND_ROBIN' }; // Every entrant meets every other one in a duel
+
+// A participant across the games of a match; `key` is stable while seats rotate
+export interface MatchEntrant {
+  key: string;
+  name: string;
+  isHuman: boolean;
+  bot?: BotSettings;
+  profileId?: string;
+}
+
+export interface MatchGameResult {
+  seed: number;
+  seats: string[]; // Entrant keys in seat order
+  winnerKey: string | null; // null: the game was cut off unfinished, so nobody won it
+  medals: Record<string, number>; // Entrant key -> medals won in that game
+}
+
+export interface Match {
+  format: MatchFormat;
+  entrants: MatchEntrant[];
+  rules: RuleSet;
+  baseSeed: number;
+  results: MatchGameResult[];
+}
+
+export interface GameState {
+  players: Player[];
+  phase: GamePhase;
+  dealerIndex: number;
+  activePlayerIndex: number;
+  roundRequirement: RoundRequirement | null;
+  tableStack: PlayedSet[];
+  roundNumber: number;
+  logs: LogEntry[];
+  events: GameEvent[];
+  winnerId: string | null;
+  rules: RuleSet;
+  mashedThisRound: Record<string, number>; // Card id -> level before its first mash this round
+  mashesThisRound: Record<string, number>; // Player id -> mash attempts this round
+  noticedMashers: string[]; // Players whose mashing was visible to the table this round
+  challengeOpen: boolean; // Whether the last play can still be challenged
+  seed: number; // The seed the match was dealt from
+  rngState: number; // Current generator state; every random draw advances it
+  practice: boolean; // Moves can be taken back
+  undoUsed: boolean; // A move was taken back, so the result does not count toward ratings
+}
+
+// Every action names the acting player; the engine ignores actions from anyone but the active seat,
+// except a challenge, which any other player may raise against the last play.
+export type GameAction =
+  | { type: 'PLAY'; playerId: string; cardIds: string[] }
+  | { type: 'PASS'; playerId: string }
+  | { type: 'DECLARE_REQUIREMENT'; playerId: string; requirement: RoundRequirement }
+  | { type: 'MASH'; playerId: string; cardId: string }
+  | { type: 'CHALLENGE'; playerId: string }
+  | { type: 'TIMEOUT'; playerId: string }
+  | { type: 'BOT_TURN'; playerId: string };